@@ -1,31 +1,406 @@
 #!/usr/bin/env node
 
-import { Command } from "commander";
-import { readFile } from "fs/promises";
+import { Command, Option } from "commander";
+import { BigNumber, Contract, utils } from "ethers";
+import { writeFile } from "fs/promises";
+import { createInterface } from "readline";
 import { isOptionalChain } from "typescript";
+import { stringify } from "yaml";
+
 import pkgInfo from "../package.json";
 import { Context } from "./context";
+import { decodeCall, decodeIncurDebtTx } from "./decode";
+import { loadDeployments } from "./deployments";
+import {
+    ChainMismatchError,
+    EmptyPoolError,
+    InsufficientBorrowableError,
+    InsufficientHeadroomError,
+    InvalidInputError,
+    PoolMismatchError,
+    PriceDeviationError,
+    PriceGuardError,
+    TransactionRevertedError,
+    UnsupportedChainError,
+    UnsupportedStrategyError,
+} from "./errors";
+import {
+    broadcastTransaction,
+    loadSigner,
+    prepareTransaction,
+} from "./executor";
+import { historyToCsv } from "./history";
 import { IncurDebt } from "./incurDebt";
+import { UniswapV3PoolABI } from "./metadata/abis";
+import {
+    ADD_LIQ_PARAMS_VERSION,
+    detectPoolTokens,
+    readAddLiquidityParams,
+    validateAddLiquidityParams,
+} from "./params";
+import { getSafeBatch } from "./safe";
+import {
+    AddLiquidityParams,
+    DecodedCall,
+    DeploymentConfig,
+    RepaySource,
+    SignerOptions,
+    SimulatedTransaction,
+    SimulationResult,
+    StrategyPosition,
+    UnwindBalances,
+} from "./types";
+import {
+    formatAmount,
+    GOHM_DECIMALS,
+    OHM_DECIMALS,
+    parseTokenAmount,
+} from "./units";
 
 const program = new Command();
 
+// The exit codes of errors in what the CLI was given, any other error exits
+// with 1
+const ExitCodes: [new (...args: never[]) => Error, number][] = [
+    [InvalidInputError, 2],
+    [UnsupportedStrategyError, 3],
+    [UnsupportedChainError, 3],
+    [ChainMismatchError, 4],
+    [PoolMismatchError, 5],
+    [EmptyPoolError, 5],
+    [InsufficientBorrowableError, 6],
+    [InsufficientHeadroomError, 6],
+    [PriceDeviationError, 7],
+    [PriceGuardError, 7],
+    [TransactionRevertedError, 8],
+];
+
+// Read before parsing, so that parsing errors are also printed as JSON
+const jsonMode = process.argv.includes("--json");
+
+interface ExecutionOptions extends SignerOptions {
+    send?: boolean;
+    withApprovals?: boolean;
+    simulate?: boolean;
+    sender?: string;
+    confirmations: string;
+    yes?: boolean;
+    units: string;
+    format: string;
+    output?: string;
+    safeAddress?: string;
+}
+
+interface JsonTransaction extends DecodedCall {
+    to?: string;
+    data: string;
+    value: string;
+    chainId: number;
+    simulation?: SimulationResult;
+}
+
+const printJson = (value: unknown): void =>
+    console.log(JSON.stringify(value, null, 4));
+
+const toJsonTx = (
+    context: Context,
+    tx: SimulatedTransaction
+): JsonTransaction => ({
+    to: tx.to,
+    data: utils.hexlify(tx.data ?? "0x"),
+    value: BigNumber.from(tx.value ?? 0).toString(),
+    chainId: context.chainId,
+    ...decodeCall(tx.data ?? "0x"),
+    simulation: tx.simulation,
+});
+
+// -ru takes comma separated RPC URLs, and the add-liq file an array of them
+async function createContext(
+    chainId: number,
+    rpcUrl: string | string[],
+    deployment?: DeploymentConfig
+): Promise<Context> {
+    const options = program.opts();
+    return await Context.create(
+        chainId,
+        typeof rpcUrl == "string" ? rpcUrl.split(",") : rpcUrl,
+        {
+            deployment,
+            quorum: options.quorum,
+            stallTimeout: options.stallTimeout,
+            retries: options.retries,
+            retryInterval: options.retryInterval,
+        }
+    );
+}
+
+async function parseAmount(
+    context: Context,
+    token: string | undefined,
+    amount: string,
+    units: string
+): Promise<string> {
+    if (units == "raw" && /^\d+$/.test(amount)) return amount;
+
+    if (!token)
+        throw new InvalidInputError(
+            `The token address is unknown on chain ${context.chainId}, so ${amount} can't be converted to base units.`
+        );
+
+    return await parseTokenAmount(
+        context.fallbackProvider,
+        token,
+        amount,
+        units == "human"
+    );
+}
+
+const formatOhm = (amount: string): string =>
+    `${utils.formatUnits(amount, OHM_DECIMALS)} OHM`;
+
+const formatGohm = (amount: string): string =>
+    `${utils.formatUnits(amount, GOHM_DECIMALS)} gOHM`;
+
+function parseStrategyOptions(json?: string): unknown {
+    try {
+        return json && JSON.parse(json);
+    } catch {
+        throw new InvalidInputError(`--options must be JSON, got ${json}.`);
+    }
+}
+
+// Positions are given as strategy:lpAddress, or as the address alone
+const parsePosition = (
+    position: string,
+    options: unknown
+): string | StrategyPosition => {
+    const [strategy, lpAddress] = position.split(":");
+    return lpAddress ? { strategy, lpAddress, options } : position;
+};
+
+// Lines are read through the iterator so that piped answers arriving before
+// their question aren't dropped
+async function prompt(
+    lines: AsyncIterator<string>,
+    question: string
+): Promise<string> {
+    process.stderr.write(question);
+    const { value, done } = await lines.next();
+    if (done)
+        throw new InvalidInputError(
+            `The input ended before "${question.trim()}" was answered.`
+        );
+
+    return value.trim();
+}
+
+async function confirm(question: string): Promise<boolean> {
+    const rl = createInterface({
+        input: process.stdin,
+        output: process.stderr,
+    });
+    const answer = await prompt(rl[Symbol.asyncIterator](), question);
+    rl.close();
+
+    return ["y", "yes"].includes(answer.toLowerCase());
+}
+
+async function getSender(
+    context: Context,
+    execution: ExecutionOptions
+): Promise<string> {
+    if (execution.sender) return execution.sender;
+    if (execution.send)
+        return await (await loadSigner(context, execution)).getAddress();
+
+    throw new InvalidInputError(
+        "--sender is required to check approvals or simulate."
+    );
+}
+
+async function getSimulateFrom(
+    context: Context,
+    execution: ExecutionOptions
+): Promise<string | undefined> {
+    if (execution.simulate) return await getSender(context, execution);
+}
+
+async function outputTxs(
+    context: Context,
+    txs: SimulatedTransaction[],
+    execution: ExecutionOptions,
+    warnings: string[] = []
+): Promise<void> {
+    const reverted = txs.filter((tx) => tx.simulation?.success === false);
+    warnings = warnings.concat(
+        ...txs.map((tx) => tx.warnings ?? []),
+        reverted.map(
+            (tx) => `Simulation reverted: ${tx.simulation?.revertReason}`
+        )
+    );
+    if (!jsonMode) for (const warning of warnings) console.warn(warning);
+
+    if (!execution.send) {
+        if (execution.format == "safe-batch") {
+            const batch = getSafeBatch(txs, {
+                chainId: context.chainId,
+                safeAddress: execution.safeAddress,
+            });
+
+            if (execution.output) {
+                await writeFile(
+                    execution.output,
+                    JSON.stringify(batch, null, 4)
+                );
+                if (jsonMode) printJson({ output: execution.output, warnings });
+            } else if (jsonMode) printJson({ safeBatch: batch, warnings });
+            else printJson(batch);
+        } else if (jsonMode) {
+            printJson({
+                transactions: txs.map((tx) => toJsonTx(context, tx)),
+                warnings,
+            });
+        } else {
+            for (const tx of txs) console.log(tx);
+        }
+        return;
+    }
+
+    if (reverted.length)
+        throw new Error("Not sending transactions that revert in simulation.");
+
+    const signer = await loadSigner(context, execution);
+    const sent: object[] = [];
+
+    for (const tx of txs) {
+        const request = await prepareTransaction(signer, tx);
+        const summary = {
+            from: request.from,
+            to: request.to,
+            data: request.data,
+            nonce: request.nonce?.toString(),
+            gasLimit: request.gasLimit?.toString(),
+        };
+        if (!jsonMode) console.log(summary);
+
+        if (
+            !execution.yes &&
+            !(await confirm("Sign and broadcast this transaction? [y/N] "))
+        ) {
+            if (jsonMode)
+                printJson({ transactions: sent, warnings, aborted: true });
+            else console.log("Transaction not sent.");
+            return;
+        }
+
+        const [receipt, events] = await broadcastTransaction(
+            signer,
+            request,
+            parseInt(execution.confirmations)
+        );
+        const result = {
+            transactionHash: receipt.transactionHash,
+            blockNumber: receipt.blockNumber,
+            status: receipt.status == 1 ? "success" : "reverted",
+            gasUsed: receipt.gasUsed.toString(),
+            confirmations: receipt.confirmations,
+        };
+
+        if (jsonMode) {
+            sent.push({
+                ...toJsonTx(context, tx),
+                ...summary,
+                receipt: result,
+                events,
+            });
+        } else {
+            console.log(result);
+            for (const event of events) console.log(event);
+        }
+
+        // The transactions after it were built on it going through
+        if (receipt.status != 1) {
+            if (jsonMode)
+                printJson({ transactions: sent, warnings, aborted: true });
+            throw new TransactionRevertedError(
+                receipt.transactionHash,
+                receipt.blockNumber
+            );
+        }
+    }
+
+    if (jsonMode) printJson({ transactions: sent, warnings, aborted: false });
+}
+
+// Each tx is simulated on its own, so the action after an approval would
+// be simulated without the allowance it grants
+function rejectSimulatedApprovals(execution: ExecutionOptions): void {
+    if (execution.withApprovals && execution.simulate)
+        throw new InvalidInputError(
+            "--simulate can't be combined with --with-approvals, as the approval isn't in effect when the action after it is simulated. Simulate the action once the approval is mined."
+        );
+}
+
 async function deposit(
     amount: string,
     rpcUrl: string,
-    chainId: number
+    chainId: number,
+    execution: ExecutionOptions
 ): Promise<void> {
-    console.log(
-        await new IncurDebt(new Context(chainId, rpcUrl)).getDepositTx(amount)
+    rejectSimulatedApprovals(execution);
+
+    const context = await createContext(chainId, rpcUrl);
+    amount = await parseAmount(
+        context,
+        context.deployment.gohm,
+        amount,
+        execution.units
     );
+    const incurDebt = new IncurDebt(context);
+
+    if (!execution.withApprovals) {
+        await outputTxs(
+            context,
+            [
+                await incurDebt.getDepositTx(
+                    amount,
+                    await getSimulateFrom(context, execution)
+                ),
+            ],
+            execution
+        );
+        return;
+    }
+
+    const preflight = await incurDebt.getDepositTxWithApprovals(
+        await getSender(context, execution),
+        amount
+    );
+    await outputTxs(context, preflight.txs, execution, preflight.warnings);
 }
 
 async function borrow(
     amount: string,
     rpcUrl: string,
-    chainId: number
+    chainId: number,
+    execution: ExecutionOptions
 ): Promise<void> {
-    console.log(
-        await new IncurDebt(new Context(chainId, rpcUrl)).getBorrowTx(amount)
+    const context = await createContext(chainId, rpcUrl);
+    amount = await parseAmount(
+        context,
+        context.deployment.ohm,
+        amount,
+        execution.units
+    );
+    await outputTxs(
+        context,
+        [
+            await new IncurDebt(context).getBorrowTx(
+                amount,
+                await getSimulateFrom(context, execution)
+            ),
+        ],
+        execution
     );
 }
 
@@ -33,49 +408,132 @@ async function withdrawLiq(
     liquidity: string,
     lpAddress: string,
     rpcUrl: string,
-    chainId: number
+    chainId: number,
+    execution: ExecutionOptions
 ): Promise<void> {
-    console.log(
-        await new IncurDebt(
-            new Context(chainId, rpcUrl)
-        ).getWithdrawLiquidityTx(liquidity, lpAddress)
+    const context = await createContext(chainId, rpcUrl);
+    await outputTxs(
+        context,
+        [
+            await new IncurDebt(context).getWithdrawLiquidityTx(
+                liquidity,
+                lpAddress,
+                await getSimulateFrom(context, execution)
+            ),
+        ],
+        execution
+    );
+}
+
+async function removeLiq(
+    liquidity: string,
+    strategy: string,
+    lpAddress: string,
+    slippage: number,
+    strategyOptions: unknown,
+    rpcUrl: string,
+    chainId: number,
+    execution: ExecutionOptions
+): Promise<void> {
+    const context = await createContext(chainId, rpcUrl);
+    await outputTxs(
+        context,
+        [
+            await new IncurDebt(context).getRemoveLiquidityTx(
+                liquidity,
+                strategy,
+                lpAddress,
+                slippage,
+                strategyOptions,
+                await getSimulateFrom(context, execution)
+            ),
+        ],
+        execution
     );
 }
 
 async function withdraw(
     amount: string,
     rpcUrl: string,
-    chainId: number
+    chainId: number,
+    execution: ExecutionOptions
 ): Promise<void> {
-    console.log(
-        await new IncurDebt(new Context(chainId, rpcUrl)).getWithdrawTx(amount)
+    const context = await createContext(chainId, rpcUrl);
+    amount = await parseAmount(
+        context,
+        context.deployment.gohm,
+        amount,
+        execution.units
+    );
+    await outputTxs(
+        context,
+        [
+            await new IncurDebt(context).getWithdrawTx(
+                amount,
+                await getSimulateFrom(context, execution)
+            ),
+        ],
+        execution
     );
 }
 
 async function repayDebt(
-    gohmAmount: string,
+    ohmAmount: string,
     withCollateral: boolean,
     withdrawRest: boolean,
     rpcUrl: string,
-    chainId: number
+    chainId: number,
+    execution: ExecutionOptions
 ): Promise<void> {
-    console.log(
-        await new IncurDebt(new Context(chainId, rpcUrl)).getRepayDebtTx(
-            gohmAmount,
-            withCollateral,
-            withdrawRest
-        )
+    rejectSimulatedApprovals(execution);
+
+    const context = await createContext(chainId, rpcUrl);
+    ohmAmount = await parseAmount(
+        context,
+        context.deployment.ohm,
+        ohmAmount,
+        execution.units
     );
+    const incurDebt = new IncurDebt(context);
+
+    if (!execution.withApprovals) {
+        await outputTxs(
+            context,
+            [
+                await incurDebt.getRepayDebtTx(
+                    ohmAmount,
+                    withCollateral,
+                    withdrawRest,
+                    await getSimulateFrom(context, execution)
+                ),
+            ],
+            execution
+        );
+        return;
+    }
+
+    const preflight = await incurDebt.getRepayDebtTxWithApprovals(
+        await getSender(context, execution),
+        ohmAmount,
+        withCollateral,
+        withdrawRest
+    );
+    await outputTxs(context, preflight.txs, execution, preflight.warnings);
 }
 
 async function borrowable(
     account: string,
     rpcUrl: string,
-    chainId: number
+    chainId: number,
+    units: string
 ): Promise<void> {
-    console.log(
-        await new IncurDebt(new Context(chainId, rpcUrl)).getBorrowable(account)
-    );
+    const amount = await new IncurDebt(
+        await createContext(chainId, rpcUrl)
+    ).getBorrowable(account);
+
+    if (jsonMode)
+        printJson({ account, borrowable: formatAmount(amount, OHM_DECIMALS) });
+    else console.log(units == "human" ? formatOhm(amount) : amount);
 }
 
 async function lpBalance(
@@ -84,67 +542,522 @@ async function lpBalance(
     rpcUrl: string,
     chainId: number
 ): Promise<void> {
-    console.log(
-        await new IncurDebt(new Context(chainId, rpcUrl)).getBalanceOfLpToken(
-            account,
-            lpAddress
-        )
-    );
+    const balance = await new IncurDebt(
+        await createContext(chainId, rpcUrl)
+    ).getBalanceOfLpToken(account, lpAddress);
+
+    if (jsonMode) printJson({ account, lpAddress, balance });
+    else console.log(balance);
 }
 
-async function debtLimit(rpcUrl: string, chainId: number): Promise<void> {
-    console.log(
-        await new IncurDebt(new Context(chainId, rpcUrl)).getGlobalDebtLimit()
+async function position(
+    borrower: string,
+    positions: string[],
+    rpcUrl: string,
+    chainId: number,
+    strategyOptions?: string
+): Promise<void> {
+    const options = parseStrategyOptions(strategyOptions);
+    const report = await new IncurDebt(
+        await createContext(chainId, rpcUrl)
+    ).getPositionReport(
+        borrower,
+        positions.map((position) => parsePosition(position, options))
     );
+
+    if (jsonMode) printJson(report);
+    else console.log(report);
 }
 
-async function outstandingDebt(rpcUrl: string, chainId: number): Promise<void> {
-    console.log(
-        await new IncurDebt(
-            new Context(chainId, rpcUrl)
-        ).getTotalOutstandingDebt()
+async function debtLimit(
+    rpcUrl: string,
+    chainId: number,
+    units: string
+): Promise<void> {
+    const amount = await new IncurDebt(
+        await createContext(chainId, rpcUrl)
+    ).getGlobalDebtLimit();
+
+    if (jsonMode)
+        printJson({ globalDebtLimit: formatAmount(amount, OHM_DECIMALS) });
+    else console.log(units == "human" ? formatOhm(amount) : amount);
+}
+
+async function outstandingDebt(
+    rpcUrl: string,
+    chainId: number,
+    units: string
+): Promise<void> {
+    const amount = await new IncurDebt(
+        await createContext(chainId, rpcUrl)
+    ).getTotalOutstandingDebt();
+
+    if (jsonMode)
+        printJson({
+            totalOutstandingDebt: formatAmount(amount, OHM_DECIMALS),
+        });
+    else console.log(units == "human" ? formatOhm(amount) : amount);
+}
+
+async function addLiq(
+    path: string,
+    absolutePath: boolean,
+    execution: ExecutionOptions
+): Promise<void> {
+    // Checked against the schema before any RPC is asked
+    const jsonArgs = await readAddLiquidityParams(
+        path == "-" || absolutePath ? path : process.cwd() + "/" + path
+    );
+
+    const context = await createContext(
+        jsonArgs.chainId,
+        jsonArgs.rpcUrl,
+        jsonArgs.deployment
     );
+
+    const ohmAmount = await parseAmount(
+        context,
+        context.deployment.ohm,
+        jsonArgs.ohmAmount.toString(),
+        execution.units
+    );
+    const otherTokenAmounts: string[] = [];
+    for (const [i, amount] of (jsonArgs.otherTokenAmounts ?? []).entries())
+        otherTokenAmounts.push(
+            await parseAmount(
+                context,
+                jsonArgs.otherTokens?.[i],
+                amount.toString(),
+                execution.units
+            )
+        );
+
+    await outputTxs(
+        context,
+        [
+            await new IncurDebt(context).getAddLiquidityTx(
+                jsonArgs.sender,
+                jsonArgs.strategy,
+                jsonArgs.lpAddress,
+                jsonArgs.slippage,
+                ohmAmount,
+                jsonArgs.otherTokens,
+                otherTokenAmounts,
+                jsonArgs.options,
+                execution.simulate ? jsonArgs.sender : undefined,
+                jsonArgs.priceGuard
+            ),
+        ],
+        execution
+    );
+}
+
+const Strategies = ["uniswap", "sushiswap", "uniswapv3", "curve", "balancer"];
+
+// Asks for every add-liq param, reading the pool's tokens from the chain, and
+// writes them as JSON, or YAML for a .yml or .yaml path
+async function init(path: string): Promise<void> {
+    const rl = createInterface({
+        input: process.stdin,
+        output: process.stderr,
+    });
+    const lines = rl[Symbol.asyncIterator]();
+
+    try {
+        const chainId = parseInt(await prompt(lines, "Chain id: "));
+        const rpcUrls = (
+            await prompt(lines, "RPC URL, or several comma separated: ")
+        ).split(",");
+        const sender = await prompt(lines, "Sender address: ");
+
+        const context = await createContext(chainId, rpcUrls);
+        const strategies = [
+            ...new Set([
+                ...Strategies,
+                ...new IncurDebt(context).registeredStrategies,
+            ]),
+        ];
+        // Names are read in any case, as in the params file
+        let strategy = "";
+        while (!strategies.includes(strategy))
+            strategy = (
+                await prompt(lines, `Strategy (${strategies.join(", ")}): `)
+            )
+                .trim()
+                .toLowerCase();
+
+        const lpAddress = await prompt(
+            lines,
+            strategy == "balancer" ? "Pool id: " : "Pool address: "
+        );
+
+        const tokens = await detectPoolTokens(context, strategy, lpAddress);
+        console.warn(
+            `The pool's tokens are ${tokens
+                .map((token) => `${token.symbol} (${token.address})`)
+                .join(", ")}.`
+        );
+
+        const ohm = context.deployment.ohm.toLowerCase();
+        if (!tokens.some((token) => token.address.toLowerCase() == ohm))
+            console.warn(
+                "Warning: OHM is not one of the pool's tokens, so liquidity can't be added to it."
+            );
+
+        const ohmAmount = await prompt(
+            lines,
+            "OHM amount, in base units or i.e. 10.5 OHM: "
+        );
+
+        // Only Balancer pools take the amounts of their other tokens
+        const otherTokens: string[] = [];
+        const otherTokenAmounts: string[] = [];
+        if (strategy == "balancer")
+            for (const token of tokens.filter(
+                (token) => token.address.toLowerCase() != ohm
+            )) {
+                const amount = await prompt(
+                    lines,
+                    `${token.symbol} amount, blank for none: `
+                );
+                if (!amount) continue;
+
+                otherTokens.push(token.address);
+                otherTokenAmounts.push(amount);
+            }
+
+        const slippage = parseFloat(
+            (await prompt(lines, "Slippage [0.01]: ")) || "0.01"
+        );
+
+        const params: AddLiquidityParams = {
+            version: ADD_LIQ_PARAMS_VERSION,
+            chainId,
+            rpcUrl: rpcUrls.length == 1 ? rpcUrls[0] : rpcUrls,
+            sender,
+            strategy,
+            lpAddress,
+            slippage,
+            ohmAmount,
+        };
+        if (strategy == "balancer")
+            Object.assign(params, { otherTokens, otherTokenAmounts });
+
+        if (strategy == "uniswapv3") {
+            const fee: number = await new Contract(
+                lpAddress,
+                UniswapV3PoolABI,
+                context.fallbackProvider
+            ).fee();
+            const priceBand = parseFloat(
+                (await prompt(
+                    lines,
+                    "Price band around the current price to provide liquidity in [0.1]: "
+                )) || "0.1"
+            );
+            params.options = { fee, priceBand };
+        }
+
+        validateAddLiquidityParams(params, "The params given");
+
+        await writeFile(
+            path,
+            /\.ya?ml$/i.test(path)
+                ? stringify(params)
+                : JSON.stringify(params, null, 4) + "\n"
+        );
+    } finally {
+        rl.close();
+    }
+
+    if (jsonMode) printJson({ output: path });
+    else console.log(`Wrote the add-liq params to ${path}.`);
 }
 
-async function addLiq(path: string, absolutePath: boolean): Promise<void> {
-    const jsonArgs = JSON.parse(
-        await readFile(absolutePath ? path : process.cwd() + "/" + path, "utf8")
+interface PlanCliOptions {
+    percent: string;
+    slippage: string;
+    options?: string;
+    simulate?: boolean;
+}
+
+async function plan(
+    sender: string,
+    strategy: string,
+    lpAddress: string,
+    rpcUrl: string,
+    chainId: number,
+    options: PlanCliOptions
+): Promise<void> {
+    const strategyOptions = parseStrategyOptions(options.options);
+
+    const context = await createContext(chainId, rpcUrl);
+    const { tx, ...summary } = await new IncurDebt(context).planLiquidity(
+        sender,
+        strategy,
+        lpAddress,
+        {
+            headroomPercent: parseFloat(options.percent),
+            slippage: parseFloat(options.slippage),
+            options: strategyOptions,
+            simulate: options.simulate,
+        }
+    );
+
+    const warnings = (tx.warnings ?? []).concat(
+        tx.simulation?.success === false
+            ? [`Simulation reverted: ${tx.simulation.revertReason}`]
+            : []
     );
 
+    if (jsonMode) {
+        printJson({
+            ...summary,
+            transaction: toJsonTx(context, tx),
+            warnings,
+        });
+        return;
+    }
+
     console.log(
-        await new IncurDebt(
-            new Context(jsonArgs.chainId, jsonArgs.rpcUrl)
-        ).getAddLiquidityTx(
-            jsonArgs.sender,
-            jsonArgs.strategy,
-            jsonArgs.lpAddress,
-            jsonArgs.slippage,
-            jsonArgs.ohmAmount,
-            jsonArgs.otherTokens,
-            jsonArgs.otherTokenAmounts
-        )
+        `Headroom: ${formatOhm(
+            summary.borrowable.amount
+        )} against collateral, ${formatOhm(
+            summary.borrowerHeadroom.amount
+        )} under the borrower limit, ${formatOhm(
+            summary.globalHeadroom.amount
+        )} under the global debt limit.`
+    );
+    console.log(
+        `Borrowing ${formatOhm(
+            summary.ohmAmount.amount
+        )} of at most ${formatOhm(summary.maxBorrow.amount)}, limited by the ${
+            summary.limitedBy
+        }.`
     );
+    for (const token of summary.otherTokens)
+        console.log(
+            `Providing ${token.formatted} ${token.symbol} of the ${token.balance.formatted} held.`
+        );
+    for (const warning of warnings) console.warn(warning);
+    console.log(tx);
+}
+
+interface UnwindCliOptions {
+    targetDebt?: string;
+    repayWith: RepaySource;
+    withdraw: boolean;
+    slippage: string;
+    options?: string;
+    units: string;
+}
+
+async function unwind(
+    borrower: string,
+    positions: string[],
+    rpcUrl: string,
+    chainId: number,
+    options: UnwindCliOptions
+): Promise<void> {
+    const strategyOptions = parseStrategyOptions(options.options);
+
+    const unwindPositions = positions.map((position) => {
+        const parsed = parsePosition(position, strategyOptions);
+        if (typeof parsed == "string")
+            throw new InvalidInputError(
+                `Positions are given as strategy:lpAddress, got ${position}.`
+            );
+        return parsed;
+    });
+
+    const context = await createContext(chainId, rpcUrl);
+    const plan = await new IncurDebt(context).planUnwind(borrower, {
+        positions: unwindPositions,
+        targetDebt:
+            options.targetDebt &&
+            (await parseAmount(
+                context,
+                context.deployment.ohm,
+                options.targetDebt,
+                options.units
+            )),
+        repayWith: options.repayWith,
+        withdraw: options.withdraw,
+        slippage: parseFloat(options.slippage),
+    });
+
+    if (jsonMode) {
+        printJson({
+            ...plan,
+            steps: plan.steps.map(({ tx, ...step }) => ({
+                ...step,
+                transaction: toJsonTx(context, tx),
+            })),
+        });
+        return;
+    }
+
+    const describeBalances = ({ debt, collateral, ohm }: UnwindBalances) =>
+        `debt ${formatOhm(debt.amount)}, collateral ${formatGohm(
+            collateral.amount
+        )}, wallet ${formatOhm(ohm.amount)}`;
+
+    console.log(`Before: ${describeBalances(plan.before)}.`);
+    for (const [i, step] of plan.steps.entries()) {
+        console.log(`${i + 1}. ${step.description}`);
+        for (const token of step.received)
+            console.log(`   Receives ${token.formatted} ${token.symbol}.`);
+        console.log(`   After: ${describeBalances(step.after)}.`);
+        console.log(step.tx);
+    }
+    for (const warning of plan.warnings) console.warn(warning);
 }
 
 async function borrowerData(
     borrower: string,
     rpcUrl: string,
+    chainId: number,
+    units: string
+): Promise<void> {
+    const data = await new IncurDebt(
+        await createContext(chainId, rpcUrl)
+    ).getBorrowerData(borrower);
+
+    if (jsonMode) {
+        printJson({
+            ...data,
+            borrower,
+            debt: formatAmount(data.debt, OHM_DECIMALS),
+            limit: formatAmount(data.limit, OHM_DECIMALS),
+            collateralInGOHM: formatAmount(
+                data.collateralInGOHM,
+                GOHM_DECIMALS
+            ),
+            unwrappedGOHM: formatAmount(data.unwrappedGOHM, GOHM_DECIMALS),
+        });
+        return;
+    }
+
+    if (units != "human") {
+        console.log(data);
+        return;
+    }
+
+    console.log({
+        ...data,
+        debt: formatOhm(data.debt),
+        limit: formatOhm(data.limit),
+        collateralInGOHM: formatGohm(data.collateralInGOHM),
+        unwrappedGOHM: formatGohm(data.unwrappedGOHM),
+    });
+}
+
+interface HistoryCliOptions {
+    fromBlock: number;
+    toBlock?: number;
+    chunkSize?: number;
+    checkpoint?: string;
+    csv?: string | boolean;
+}
+
+async function history(
+    borrower: string,
+    rpcUrl: string,
+    chainId: number,
+    options: HistoryCliOptions
+): Promise<void> {
+    const history = await new IncurDebt(
+        await createContext(chainId, rpcUrl)
+    ).getHistory(borrower, options.fromBlock, options.toBlock, {
+        checkpointFile: options.checkpoint,
+        chunkSize: options.chunkSize,
+    });
+
+    if (typeof options.csv == "string") {
+        await writeFile(options.csv, historyToCsv(history));
+        if (jsonMode) printJson({ ...history, output: options.csv });
+        else
+            console.log(
+                `Wrote ${history.entries.length} ledger entries to ${options.csv}.`
+            );
+    } else if (options.csv) process.stdout.write(historyToCsv(history));
+    else if (jsonMode) printJson(history);
+    else console.log(history);
+}
+
+async function decode(
+    data: string,
+    to: string | undefined,
+    rpcUrl: string,
     chainId: number
 ): Promise<void> {
-    console.log(
-        await new IncurDebt(new Context(chainId, rpcUrl)).getBorrowerData(
-            borrower
-        )
+    const decoded = await decodeIncurDebtTx(
+        { to, data },
+        await createContext(chainId, rpcUrl)
     );
+
+    if (jsonMode) {
+        printJson(decoded);
+        return;
+    }
+
+    console.log(`${decoded.signature}${to ? ` on ${to}` : ""}`);
+    for (const [name, value] of Object.entries(decoded.args))
+        console.log(`  ${name}: ${value}`);
+    console.log();
+    for (const line of decoded.summary) console.log(line);
+    for (const warning of decoded.warnings) console.warn(`Warning: ${warning}`);
 }
 
 async function cli(): Promise<void> {
     program
         .name("incur-debt")
         .description("CLI to library for Olympus Incur Debt partners.")
-        .version(pkgInfo.version);
+        .version(pkgInfo.version)
+        .option(
+            "--json",
+            "Print a single JSON document for every command, and errors as JSON on stderr."
+        )
+        .addOption(
+            new Option(
+                "--deployments <path>",
+                "A JSON file of IncurDebt deployments by chain id, for chains and forks that aren't built in."
+            ).env("INCUR_DEBT_DEPLOYMENTS")
+        )
+        .option(
+            "--quorum <num>",
+            "How many of the RPCs given to -ru must agree on every result.",
+            (value) => parseInt(value)
+        )
+        .option(
+            "--stall-timeout <ms>",
+            "How long an RPC may take before the next one given to -ru is asked too.",
+            (value) => parseInt(value)
+        )
+        .option(
+            "--retries <num>",
+            "How many times a rate limited RPC request is retried.",
+            (value) => parseInt(value)
+        )
+        .option(
+            "--retry-interval <ms>",
+            "The slot the backoff between retries of rate limited requests grows from.",
+            (value) => parseInt(value)
+        )
+        .hook("preAction", async () => {
+            const deployments = program.opts().deployments;
+            if (deployments) await loadDeployments(deployments);
+        });
+
+    if (jsonMode)
+        program.configureOutput({
+            writeErr: (str) =>
+                process.stderr.write(
+                    JSON.stringify({ error: { message: str.trim() } }) + "\n"
+                ),
+        });
 
-    let functions: Command[] = [];
+    const functions: Command[] = [];
 
     functions.push(
         program
@@ -152,7 +1065,12 @@ async function cli(): Promise<void> {
             .description("Get unsigned tx data for depositing gOHM.")
             .argument("<gohmAmount>", "The amount of gOHM to deposit.")
             .action(async (gohmAmount, options) => {
-                await deposit(gohmAmount, options.rpcUrl, options.chainId);
+                await deposit(
+                    gohmAmount,
+                    options.rpcUrl,
+                    options.chainId,
+                    options
+                );
             })
     );
 
@@ -162,7 +1080,12 @@ async function cli(): Promise<void> {
             .description("Get unsigned tx data for borrowing OHM.")
             .argument("<ohmAmount>", "The amount of OHM to borrow.")
             .action(async (ohmAmount, options) => {
-                await borrow(ohmAmount, options.rpcUrl, options.chainId);
+                await borrow(
+                    ohmAmount,
+                    options.rpcUrl,
+                    options.chainId,
+                    options
+                );
             })
     );
 
@@ -173,13 +1096,121 @@ async function cli(): Promise<void> {
         )
         .argument(
             "<path>",
-            "The filepath to a json file containing all of the necessary arguments."
+            "The filepath to a JSON or YAML file containing all of the necessary arguments, or - to read them from stdin."
         )
         .option("-ap, --absolute-path", "Specify that path is absolute")
         .action(async (path, options) => {
-            await addLiq(path, options.absolutePath ? true : false);
+            await addLiq(path, options.absolutePath ? true : false, options);
+        });
+
+    program
+        .command("init")
+        .description(
+            "Ask for each add-liq param, detecting the pool's tokens, and write a params file for add-liq."
+        )
+        .argument(
+            "[path]",
+            "The file to write, as YAML if it ends in .yml or .yaml.",
+            "addLiqParams.json"
+        )
+        .action(async (path) => {
+            await init(path);
         });
 
+    functions.push(
+        program
+            .command("plan")
+            .description(
+                "Size the OHM to borrow and provide as liquidity from the sender's headroom and other token balances, and get the tx for it."
+            )
+            .argument("<sender>", "The borrower the liquidity is planned for.")
+            .argument("<strategy>", "The name of the DEX strategy to use.")
+            .argument(
+                "<lpAddress>",
+                "The address of the liquidity pool (the pool id for Balancer)."
+            )
+            .option(
+                "--percent <num>",
+                "The share of the headroom to borrow, in percent.",
+                "100"
+            )
+            .option(
+                "-s, --slippage <num>",
+                "The maximum allowed slippage on deposit.",
+                "0.01"
+            )
+            .option(
+                "--options <json>",
+                'The options of the strategy as JSON, i.e. {"fee":3000,"priceBand":0.1} for uniswapv3.'
+            )
+            .option(
+                "--simulate",
+                "Simulate the tx from the sender and report its result or revert reason."
+            )
+            .action(async (sender, strategy, lpAddress, options) => {
+                await plan(
+                    sender,
+                    strategy,
+                    lpAddress,
+                    options.rpcUrl,
+                    options.chainId,
+                    options
+                );
+            })
+    );
+
+    functions.push(
+        program
+            .command("unwind")
+            .description(
+                "Plan the txs that remove a borrower's liquidity, repay its debt and withdraw its collateral, with the balances expected after each."
+            )
+            .argument("<borrower>", "The borrower to unwind.")
+            .argument(
+                "[positions...]",
+                "The liquidity to remove first, as strategy:lpAddress (the pool id for Balancer)."
+            )
+            .option(
+                "--target-debt <amount>",
+                "Unwind only until the debt is down to this amount of OHM, rather than fully."
+            )
+            .addOption(
+                new Option(
+                    "--repay-with <source>",
+                    "Repay the debt left after removing liquidity with the borrower's OHM or with collateral."
+                )
+                    .choices(["ohm", "collateral"])
+                    .default("ohm")
+            )
+            .option("--no-withdraw", "Leave the remaining gOHM deposited.")
+            .option(
+                "-s, --slippage <num>",
+                "The maximum allowed slippage on removal.",
+                "0.01"
+            )
+            .option(
+                "--options <json>",
+                'The options of the strategy as JSON, i.e. {"fee":3000,"priceBand":0.1} for uniswapv3.'
+            )
+            .addOption(
+                new Option(
+                    "--units <units>",
+                    "Read a target debt without a token symbol (i.e. 10.5 OHM) as raw base units or human readable decimals."
+                )
+                    .choices(["raw", "human"])
+                    .default("raw")
+            )
+            .action(async (borrower, positions, options) => {
+                await unwind(
+                    borrower,
+                    positions,
+                    options.rpcUrl,
+                    options.chainId,
+                    options
+                );
+            })
+    );
+
     functions.push(
         program
             .command("withdraw-liq")
@@ -191,7 +1222,46 @@ async function cli(): Promise<void> {
                     liquidity,
                     lpTokenAddress,
                     options.rpcUrl,
-                    options.chainId
+                    options.chainId,
+                    options
+                );
+            })
+    );
+
+    functions.push(
+        program
+            .command("remove-liq")
+            .description(
+                "Get unsigned tx data for removing liquidity and repaying debt with the OHM received."
+            )
+            .argument("<liquidity>", "The amount of liquidity to remove.")
+            .argument(
+                "<strategy>",
+                "The name of the DEX strategy the liquidity was added with."
+            )
+            .argument(
+                "<lpAddress>",
+                "The address of the liquidity pool (the pool id for Balancer)."
+            )
+            .option(
+                "-s, --slippage <num>",
+                "The maximum allowed slippage on removal.",
+                "0.01"
+            )
+            .option(
+                "--options <json>",
+                'The options of the strategy as JSON, i.e. {"fee":3000,"tickLower":-600,"tickUpper":-60} for uniswapv3.'
+            )
+            .action(async (liquidity, strategy, lpAddress, options) => {
+                await removeLiq(
+                    liquidity,
+                    strategy,
+                    lpAddress,
+                    parseFloat(options.slippage),
+                    parseStrategyOptions(options.options),
+                    options.rpcUrl,
+                    options.chainId,
+                    options
                 );
             })
     );
@@ -202,7 +1272,12 @@ async function cli(): Promise<void> {
             .description("Get unsigned tx data for withdrawing gOHM.")
             .argument("<gohmAmount>", "The amount of gOHM to withdraw.")
             .action(async (gohmAmount, options) => {
-                await withdraw(gohmAmount, options.rpcUrl, options.chainId);
+                await withdraw(
+                    gohmAmount,
+                    options.rpcUrl,
+                    options.chainId,
+                    options
+                );
             })
     );
 
@@ -210,9 +1285,9 @@ async function cli(): Promise<void> {
         program
             .command("repay-debt")
             .description(
-                "Get unsigned tx data for repaying debt either by transferring gOHM or using existing collateral."
+                "Get unsigned tx data for repaying debt either by transferring OHM or using existing collateral."
             )
-            .argument("<gohmAmount>", "The amount of gOHM repay debt with.")
+            .argument("<ohmAmount>", "The amount of OHM to repay debt with.")
             .option(
                 "-wc, --with-collateral",
                 "Whether to repay with collateral."
@@ -221,14 +1296,15 @@ async function cli(): Promise<void> {
                 "-wr, --withdraw-rest",
                 "Whether to withdraw rest of collateral after repaying."
             )
-            .action(async (gohmAmount, options) => {
+            .action(async (ohmAmount, options) => {
                 const wc: boolean = options.withCollateral != undefined;
                 await repayDebt(
-                    gohmAmount,
+                    ohmAmount,
                     wc,
                     wc ? options.withdrawRest != undefined : false,
                     options.rpcUrl,
-                    options.chainId
+                    options.chainId,
+                    options
                 );
             })
     );
@@ -242,7 +1318,12 @@ async function cli(): Promise<void> {
                 "The address of the borrower to get data for."
             )
             .action(async (address, options) => {
-                await borrowerData(address, options.rpcUrl, options.chainId);
+                await borrowerData(
+                    address,
+                    options.rpcUrl,
+                    options.chainId,
+                    options.units
+                );
             })
     );
 
@@ -255,7 +1336,12 @@ async function cli(): Promise<void> {
                 "The address of the account to get amount of borrowable OHM for."
             )
             .action(async (address, options) => {
-                await borrowable(address, options.rpcUrl, options.chainId);
+                await borrowable(
+                    address,
+                    options.rpcUrl,
+                    options.chainId,
+                    options.units
+                );
             })
     );
 
@@ -278,12 +1364,38 @@ async function cli(): Promise<void> {
             })
     );
 
+    functions.push(
+        program
+            .command("position")
+            .description(
+                "Get a report of a borrower's debt, collateral, borrowing headroom and LP positions."
+            )
+            .argument("<address>", "The address of the borrower to report on.")
+            .argument(
+                "[positions...]",
+                "The liquidity held by the borrower to include, as strategy:lpAddress (the pool id for Balancer), or as the address of a Uniswap V2 style pair."
+            )
+            .option(
+                "--options <json>",
+                'The options of the strategy as JSON, i.e. {"fee":3000,"priceBand":0.1} for uniswapv3.'
+            )
+            .action(async (address, positions, options) => {
+                await position(
+                    address,
+                    positions,
+                    options.rpcUrl,
+                    options.chainId,
+                    options.options
+                );
+            })
+    );
+
     functions.push(
         program
             .command("debt-limit")
             .description("Get the total debt limit of the system.")
             .action(async (options) => {
-                await debtLimit(options.rpcUrl, options.chainId);
+                await debtLimit(options.rpcUrl, options.chainId, options.units);
             })
     );
 
@@ -292,15 +1404,174 @@ async function cli(): Promise<void> {
             .command("outstanding-debt")
             .description("Get the total outstanding debt of the system.")
             .action(async (options) => {
-                await outstandingDebt(options.rpcUrl, options.chainId);
+                await outstandingDebt(
+                    options.rpcUrl,
+                    options.chainId,
+                    options.units
+                );
+            })
+    );
+
+    functions.push(
+        program
+            .command("history")
+            .description(
+                "Get the ledger of a borrower's deposits, borrows, LP changes, repayments and withdrawals from IncurDebt's events."
+            )
+            .argument("<borrower>", "The address of the borrower.")
+            .requiredOption(
+                "--from-block <num>",
+                "The block to start the ledger from.",
+                (value) => parseInt(value)
+            )
+            .option(
+                "--to-block <num>",
+                "The block to end the ledger at, defaults to the latest block.",
+                (value) => parseInt(value)
+            )
+            .option(
+                "--chunk-size <num>",
+                "The most blocks to get the logs of at once.",
+                (value) => parseInt(value)
+            )
+            .option(
+                "--checkpoint <path>",
+                "A JSON file to save progress to, and resume an interrupted scan from."
+            )
+            .option(
+                "--csv [path]",
+                "Export the ledger as CSV, to the given file or to stdout."
+            )
+            .action(async (borrower, options) => {
+                await history(
+                    borrower,
+                    options.rpcUrl,
+                    options.chainId,
+                    options
+                );
+            })
+    );
+
+    functions.push(
+        program
+            .command("decode")
+            .description(
+                "Explain the calldata of an IncurDebt tx, including the params of its strategy, to review it before signing."
+            )
+            .argument("<data>", "The calldata of the tx, as a hex string.")
+            .option(
+                "--to <address>",
+                "The address the tx is sent to, to check that it is IncurDebt."
+            )
+            .action(async (data, options) => {
+                await decode(data, options.to, options.rpcUrl, options.chainId);
             })
     );
 
     for (const fn of functions) {
-        fn.requiredOption(
-            "-cid, --chain-id <num>",
-            "The chain id."
-        ).requiredOption("-ru, --rpc-url <str>", "The RPC url.");
+        fn.requiredOption("-cid, --chain-id <num>", "The chain id.", (value) =>
+            parseInt(value)
+        ).requiredOption(
+            "-ru, --rpc-url <str>",
+            "The RPC url, or several comma separated ones to fall back on."
+        );
+    }
+
+    const txFunctions = program.commands.filter((fn) =>
+        [
+            "deposit",
+            "borrow",
+            "add-liq",
+            "withdraw-liq",
+            "remove-liq",
+            "withdraw",
+            "repay-debt",
+        ].includes(fn.name())
+    );
+
+    for (const fn of txFunctions.filter((fn) =>
+        ["deposit", "repay-debt"].includes(fn.name())
+    )) {
+        fn.option(
+            "--with-approvals",
+            "Check the sender's allowance and balance, and approve IncurDebt first if needed."
+        );
+    }
+
+    for (const fn of txFunctions.filter((fn) => fn.name() != "add-liq")) {
+        fn.option(
+            "--sender <address>",
+            "The account the tx is sent from, defaults to the signer with --send."
+        );
+    }
+
+    for (const fn of program.commands.filter((fn) =>
+        [
+            "borrowable",
+            "borrower-data",
+            "debt-limit",
+            "outstanding-debt",
+        ].includes(fn.name())
+    )) {
+        fn.addOption(
+            new Option(
+                "--units <units>",
+                "Print amounts in raw base units or human readable decimals."
+            )
+                .choices(["raw", "human"])
+                .default("raw")
+        );
+    }
+
+    for (const fn of txFunctions) {
+        fn.option("--send", "Sign and broadcast the tx instead of printing it.")
+            .option(
+                "-k, --keystore <path>",
+                "The keystore JSON file to sign with."
+            )
+            .option(
+                "--keystore-password-env <name>",
+                "The env var holding the keystore password.",
+                "INCUR_DEBT_KEYSTORE_PASSWORD"
+            )
+            .option(
+                "--private-key-env <name>",
+                "The env var holding the private key to sign with, if no keystore is given."
+            )
+            .option(
+                "--confirmations <num>",
+                "The number of confirmations to wait for.",
+                "1"
+            )
+            .option("-y, --yes", "Broadcast without asking for confirmation.")
+            .addOption(
+                new Option(
+                    "--units <units>",
+                    "Read amounts without a token symbol (i.e. 10.5 OHM) as raw base units or human readable decimals."
+                )
+                    .choices(["raw", "human"])
+                    .default("raw")
+            )
+            .option(
+                "--simulate",
+                "Simulate the tx from the sender and report its result or revert reason."
+            )
+            .addOption(
+                new Option(
+                    "--format <format>",
+                    "The format to print the tx in."
+                )
+                    .choices(["tx", "safe-batch"])
+                    .default("tx")
+            )
+            .option(
+                "-o, --output <path>",
+                "The file to write a safe-batch export to, instead of printing it."
+            )
+            .option(
+                "--safe-address <address>",
+                "The Safe the safe-batch export is created for."
+            );
     }
 
     if (process.argv.length < 3) process.argv[2] = "-h";
@@ -308,4 +1579,32 @@ async function cli(): Promise<void> {
     await program.parseAsync();
 }
 
-cli().then(() => console.log("Exiting CLI."));
+cli()
+    .then(() => {
+        if (!jsonMode) console.log("Exiting CLI.");
+    })
+    .catch((error) => {
+        const exitCode = ExitCodes.find(
+            ([errorClass]) => error instanceof errorClass
+        )?.[1];
+
+        if (!jsonMode) {
+            // Unexpected errors keep their stack trace
+            if (!exitCode) throw error;
+
+            console.error(`Error: ${error.message}`);
+            process.exitCode = exitCode;
+            return;
+        }
+
+        console.error(
+            JSON.stringify({
+                error: {
+                    name: error.name,
+                    code: error.code,
+                    message: error.message,
+                },
+            })
+        );
+        process.exitCode = exitCode ?? 1;
+    });
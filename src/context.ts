@@ -1,21 +1,157 @@
-import { providers } from "ethers";
+import { BigNumber, providers } from "ethers";
+
+import { getDeployment } from "./deployments";
+import { ChainMismatchError, InvalidInputError } from "./errors";
+import { getTokenMetadata } from "./tokens";
+import {
+    ContextOptions,
+    Deployment,
+    DeploymentConfig,
+    TokenMetadata,
+} from "./types";
+type BaseProvider = providers.BaseProvider;
 type JsonRpcProvider = providers.JsonRpcProvider;
 
+function createRpcProvider(
+    url: string,
+    chainId: number,
+    options: ContextOptions
+): providers.StaticJsonRpcProvider {
+    // ethers retries requests answered with 429, backing off exponentially
+    // or as long as the endpoint asks to. The network is given so that it
+    // isn't asked for before every call, which a fallback provider would
+    // otherwise ask of every RPC, failing when any of them is down.
+    return new providers.StaticJsonRpcProvider(
+        {
+            url,
+            throttleLimit:
+                options.retries == undefined ? undefined : options.retries + 1,
+            throttleSlotInterval: options.retryInterval,
+        },
+        chainId
+    );
+}
+
+// RPCs are asked in the order given, and a single one is used as is
+function createFallbackProvider(
+    rpcs: JsonRpcProvider[],
+    quorum: number,
+    stallTimeout?: number
+): BaseProvider {
+    if (rpcs.length == 1) return rpcs[0];
+
+    return new providers.FallbackProvider(
+        rpcs.map((provider, i) => ({
+            provider,
+            priority: i + 1,
+            stallTimeout,
+            weight: 1,
+        })),
+        quorum
+    );
+}
+
+// Asks the RPC itself, rather than the chain it was created for
+const getRpcChainId = async (provider: BaseProvider): Promise<number> =>
+    provider instanceof providers.JsonRpcProvider
+        ? BigNumber.from(await provider.send("eth_chainId", [])).toNumber()
+        : (await provider.getNetwork()).chainId;
+
 export class Context {
-    private _provider: JsonRpcProvider;
+    private _provider: BaseProvider;
     private _chainId: number;
+    private _deploymentOverrides?: DeploymentConfig;
+
+    // The RPCs behind the provider, and how many of them must agree
+    private _rpcs: JsonRpcProvider[];
+    private _quorum: number;
+
+    constructor(
+        chainId: number,
+        providerUrl: string | string[],
+        options: ContextOptions = {}
+    ) {
+        const urls = [providerUrl].flat();
+        if (urls.length == 0)
+            throw new Error("At least one RPC URL is needed.");
 
-    constructor(chainId: number, providerUrl: string) {
-        this._provider = new providers.JsonRpcProvider(providerUrl);
+        this._quorum = options.quorum ?? 1;
+        if (
+            !Number.isInteger(this._quorum) ||
+            this._quorum < 1 ||
+            this._quorum > urls.length
+        )
+            throw new InvalidInputError(
+                `The quorum must be between 1 and the ${urls.length} RPC URLs given, got ${this._quorum}.`
+            );
+
+        this._rpcs = urls.map((url) =>
+            createRpcProvider(url, chainId, options)
+        );
+        this._provider = createFallbackProvider(
+            this._rpcs,
+            this._quorum,
+            options.stallTimeout
+        );
         this._chainId = chainId;
+        this._deploymentOverrides = options.deployment;
+    }
+
+    // Creates a context once its RPCs are checked to be on the chain
+    static async create(
+        chainId: number,
+        providerUrl: string | string[],
+        options: ContextOptions = {}
+    ): Promise<Context> {
+        const context = new Context(chainId, providerUrl, options);
+        await context.verifyChainId();
+        return context;
     }
 
-    setProvider(provider: JsonRpcProvider): void {
-        this._provider = provider;
+    // Every RPC reached must be on the chain of the context, and enough of
+    // them must be reached to make the quorum
+    async verifyChainId(): Promise<void> {
+        const results = await Promise.allSettled(this._rpcs.map(getRpcChainId));
+
+        for (const result of results)
+            if (result.status == "fulfilled" && result.value != this.chainId)
+                throw new ChainMismatchError(this.chainId, result.value);
+
+        const failures = results.filter(
+            (result): result is PromiseRejectedResult =>
+                result.status == "rejected"
+        );
+        if (results.length - failures.length < this._quorum) {
+            if (results.length == 1) throw failures[0].reason;
+
+            throw new Error(
+                `Only ${results.length - failures.length} of ${
+                    results.length
+                } RPCs could be reached, but a quorum of ${
+                    this._quorum
+                } is needed.`
+            );
+        }
     }
 
+    // Several providers are fallen back on in the order given, like
+    // several RPC URLs
+    setProvider(provider: JsonRpcProvider | JsonRpcProvider[]): void {
+        this._rpcs = [provider].flat();
+        this._quorum = 1;
+        this._provider = createFallbackProvider(this._rpcs, this._quorum);
+    }
+
+    // The first RPC given, so that callers can keep sending it raw requests
     get provider(): JsonRpcProvider {
-        if (this._provider) return this._provider as JsonRpcProvider;
+        if (this._rpcs.length) return this._rpcs[0];
+        throw new Error("Provider must exist.");
+    }
+
+    // What every read and transaction goes through: a FallbackProvider over
+    // the RPCs when several are given, or the only one
+    get fallbackProvider(): BaseProvider {
+        if (this._provider) return this._provider;
         throw new Error("Provider must exist.");
     }
 
@@ -23,4 +159,15 @@ export class Context {
         if (this._chainId) return this._chainId;
         throw new Error("ChainID must exist");
     }
+
+    // Token metadata is read once for the context's provider
+    async getTokenMetadata(tokens: string[]): Promise<TokenMetadata[]> {
+        return await getTokenMetadata(this.fallbackProvider, tokens);
+    }
+
+    // The known or registered deployment of the chain, with this context's
+    // overrides on top
+    get deployment(): Deployment {
+        return getDeployment(this.chainId, this._deploymentOverrides);
+    }
 }
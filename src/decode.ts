@@ -0,0 +1,465 @@
+import { BigNumber, BytesLike, utils } from "ethers";
+
+import { Context } from "./context";
+import { ERC20ABI, IncurDebtABI } from "./metadata/abis";
+import { Curve } from "./strategies/Curve";
+import {
+    DecodedCall,
+    DecodedIncurDebtTx,
+    DecodedStrategyParams,
+    TokenAmount,
+} from "./types";
+import { GOHM_DECIMALS, OHM_DECIMALS } from "./units";
+
+const abiCoder = utils.defaultAbiCoder;
+
+// IncurDebt calls, and the ERC20 approvals built by the preflight
+const callInterfaces = [
+    new utils.Interface(IncurDebtABI),
+    new utils.Interface(ERC20ABI),
+];
+
+export function parseCall(data: BytesLike): utils.TransactionDescription {
+    for (const callInterface of callInterfaces) {
+        try {
+            return callInterface.parseTransaction({
+                data: utils.hexlify(data),
+            });
+        } catch {
+            continue;
+        }
+    }
+
+    throw new Error(
+        `Unknown function selector ${utils.hexDataSlice(data, 0, 4)}.`
+    );
+}
+
+export function decodeCall(data: BytesLike): DecodedCall {
+    const parsed = parseCall(data);
+
+    const args: { [key: string]: string } = {};
+    parsed.functionFragment.inputs.forEach((input, i) => {
+        args[input.name] = parsed.args[i].toString();
+    });
+
+    return { method: parsed.name, signature: parsed.signature, args };
+}
+
+const sameAddress = (a: string, b?: string): boolean =>
+    !!b && a.toLowerCase() == b.toLowerCase();
+
+async function toTokenAmount(
+    context: Context,
+    token: string,
+    amount: BigNumber,
+    decimals?: number,
+    symbol?: string
+): Promise<TokenAmount> {
+    // Tokens without metadata, i.e. old Curve LP tokens, are left raw
+    try {
+        if (symbol == undefined || decimals == undefined) {
+            const [metadata] = await context.getTokenMetadata([token]);
+            symbol ??= metadata.symbol;
+            decimals ??= metadata.decimals;
+        }
+    } catch {
+        symbol ??= token;
+        decimals ??= 0;
+    }
+
+    return {
+        token,
+        symbol: symbol as string,
+        amount: amount.toString(),
+        formatted: utils.formatUnits(amount, decimals),
+    };
+}
+
+const toOhmAmount = (context: Context, amount: BigNumber) =>
+    toTokenAmount(context, context.deployment.ohm, amount, OHM_DECIMALS, "OHM");
+
+const toGohmAmount = (context: Context, amount: BigNumber) =>
+    toTokenAmount(
+        context,
+        context.deployment.gohm ?? "",
+        amount,
+        GOHM_DECIMALS,
+        "gOHM"
+    );
+
+const formatTokenAmount = (amount: TokenAmount): string =>
+    `${amount.formatted} ${amount.symbol}`;
+
+const formatTokenAmounts = (amounts: TokenAmount[]): string =>
+    amounts.map(formatTokenAmount).join(", ");
+
+type StrategyParamsDecoder = (
+    context: Context,
+    params: string,
+    lpToken: string
+) => Promise<Omit<DecodedStrategyParams, "strategy" | "address">>;
+
+interface StrategyLayout {
+    add: StrategyParamsDecoder;
+    remove: StrategyParamsDecoder;
+}
+
+// Uniswap V2 style pairs take the two tokens, and the amounts of each
+const PairLayout: StrategyLayout = {
+    add: async (context, params) => {
+        const [tokenA, tokenB, amountA, amountB, minA, minB] = abiCoder.decode(
+            ["address", "address", "uint256", "uint256", "uint256", "uint256"],
+            params
+        );
+
+        return {
+            amounts: [
+                await toTokenAmount(context, tokenA, amountA),
+                await toTokenAmount(context, tokenB, amountB),
+            ],
+            minAmounts: [
+                await toTokenAmount(context, tokenA, minA),
+                await toTokenAmount(context, tokenB, minB),
+            ],
+        };
+    },
+    remove: async (context, params, lpToken) => {
+        const [tokenA, tokenB, liquidity, minA, minB] = abiCoder.decode(
+            ["address", "address", "uint256", "uint256", "uint256"],
+            params
+        );
+
+        return {
+            pool: lpToken,
+            amounts: [],
+            minAmounts: [
+                await toTokenAmount(context, tokenA, minA),
+                await toTokenAmount(context, tokenB, minB),
+            ],
+            liquidity: await toTokenAmount(context, lpToken, liquidity),
+        };
+    },
+};
+
+async function getCurveCoins(
+    context: Context,
+    pool: string
+): Promise<string[]> {
+    return await new Curve(
+        pool,
+        0,
+        "0",
+        context.fallbackProvider,
+        context.chainId,
+        context.deployment
+    ).getCoins();
+}
+
+// Curve params only hold static types, so their length gives the number of
+// coins of the pool
+const CurveLayout: StrategyLayout = {
+    add: async (context, params) => {
+        const nCoins = (utils.hexDataLength(params) / 32 - 1) / 2;
+        const [amounts, minLp, , pool] = abiCoder.decode(
+            [
+                `uint256[${nCoins}]`,
+                "uint256",
+                `address[${nCoins - 1}]`,
+                "address",
+            ],
+            params
+        );
+        const coins = await getCurveCoins(context, pool);
+
+        return {
+            pool,
+            amounts: await Promise.all(
+                amounts.map((amount: BigNumber, i: number) =>
+                    toTokenAmount(context, coins[i], amount)
+                )
+            ),
+            minAmounts: [],
+            minLiquidity: await toTokenAmount(context, pool, minLp),
+        };
+    },
+    remove: async (context, params, lpToken) => {
+        const nCoins = utils.hexDataLength(params) / 32 - 2;
+        const [liquidity, minAmounts, pool] = abiCoder.decode(
+            ["uint256", `uint256[${nCoins}]`, "address"],
+            params
+        );
+        const coins = await getCurveCoins(context, pool);
+
+        return {
+            pool,
+            amounts: [],
+            minAmounts: await Promise.all(
+                minAmounts.map((amount: BigNumber, i: number) =>
+                    toTokenAmount(context, coins[i], amount)
+                )
+            ),
+            liquidity: await toTokenAmount(context, lpToken, liquidity),
+        };
+    },
+};
+
+const BalancerLayout: StrategyLayout = {
+    add: async (context, params) => {
+        const [poolId, assets, maxAmountsIn, minBpt] = abiCoder.decode(
+            ["bytes32", "address[]", "uint256[]", "uint256"],
+            params
+        );
+
+        return {
+            pool: poolId,
+            amounts: await Promise.all(
+                assets.map((asset: string, i: number) =>
+                    toTokenAmount(context, asset, maxAmountsIn[i])
+                )
+            ),
+            minAmounts: [],
+            minLiquidity: await toTokenAmount(
+                context,
+                utils.hexDataSlice(poolId, 0, 20),
+                minBpt
+            ),
+        };
+    },
+    remove: async (context, params) => {
+        const [poolId, assets, minAmountsOut, liquidity] = abiCoder.decode(
+            ["bytes32", "address[]", "uint256[]", "uint256"],
+            params
+        );
+
+        return {
+            pool: poolId,
+            amounts: [],
+            minAmounts: await Promise.all(
+                assets.map((asset: string, i: number) =>
+                    toTokenAmount(context, asset, minAmountsOut[i])
+                )
+            ),
+            liquidity: await toTokenAmount(
+                context,
+                utils.hexDataSlice(poolId, 0, 20),
+                liquidity
+            ),
+        };
+    },
+};
+
+const StrategyLayouts: { [name: string]: StrategyLayout } = {
+    uniswap: PairLayout,
+    sushiswap: PairLayout,
+    curve: CurveLayout,
+    balancer: BalancerLayout,
+};
+
+function describeStrategyParams(params: DecodedStrategyParams): string[] {
+    const summary: string[] = [];
+
+    if (params.amounts.length)
+        summary.push(`Deposit ${formatTokenAmounts(params.amounts)}.`);
+    if (params.liquidity)
+        summary.push(`Burn ${formatTokenAmount(params.liquidity)} LP tokens.`);
+    if (params.minAmounts.length)
+        summary.push(
+            `${
+                params.amounts.length ? "Deposit" : "Receive"
+            } at least ${formatTokenAmounts(params.minAmounts)}.`
+        );
+    if (params.minLiquidity)
+        summary.push(
+            `Receive at least ${formatTokenAmount(
+                params.minLiquidity
+            )} LP tokens.`
+        );
+
+    return summary;
+}
+
+async function decodeStrategyParams(
+    context: Context,
+    call: utils.TransactionDescription,
+    warnings: string[]
+): Promise<DecodedStrategyParams | undefined> {
+    const address: string = call.args._strategy;
+
+    const strategy = Object.entries(context.deployment.strategies).find(
+        ([, strategyAddress]) => sameAddress(strategyAddress, address)
+    );
+    if (!strategy) {
+        warnings.push(
+            `${address} is not a known strategy on chain ${context.chainId}, so its params can't be decoded.`
+        );
+        return;
+    }
+
+    const [name] = strategy;
+    const layout = StrategyLayouts[name.toLowerCase()];
+    if (!layout) {
+        warnings.push(
+            `The params of the ${name} strategy at ${address} can't be decoded.`
+        );
+        return;
+    }
+
+    const decoded =
+        call.name == "createLP"
+            ? await layout.add(context, call.args._strategyParams, "")
+            : await layout.remove(
+                  context,
+                  call.args._strategyParams,
+                  call.args._lpToken
+              );
+
+    return { strategy: name, address, ...decoded };
+}
+
+const describeStrategy = (
+    call: utils.TransactionDescription,
+    strategyParams?: DecodedStrategyParams
+): string =>
+    strategyParams
+        ? `the ${strategyParams.strategy} strategy (${call.args._strategy})`
+        : `strategy ${call.args._strategy}`;
+
+// Explains an IncurDebt transaction, or an approval for one, the way
+// a signer would want to review it
+export async function decodeIncurDebtTx(
+    tx: { to?: string; data?: BytesLike },
+    context: Context
+): Promise<DecodedIncurDebtTx> {
+    const data = tx.data ?? "0x";
+    const call = parseCall(data);
+    const summary: string[] = [];
+    const warnings: string[] = [];
+
+    const incurDebtAddress = context.deployment.incurDebt;
+    const isApproval = call.name == "approve";
+    if (tx.to && !isApproval && !sameAddress(tx.to, incurDebtAddress))
+        warnings.push(
+            `The transaction is sent to ${tx.to}, not to IncurDebt at ${incurDebtAddress}.`
+        );
+
+    let strategyParams: DecodedStrategyParams | undefined;
+    switch (call.name) {
+        case "deposit":
+            summary.push(
+                `Deposit ${formatTokenAmount(
+                    await toGohmAmount(context, call.args._amount)
+                )} as collateral.`
+            );
+            break;
+        case "withdraw":
+            summary.push(
+                `Withdraw ${formatTokenAmount(
+                    await toGohmAmount(context, call.args._gohmAmount)
+                )} of collateral.`
+            );
+            break;
+        case "borrow":
+            summary.push(
+                `Borrow ${formatTokenAmount(
+                    await toOhmAmount(context, call.args._ohmAmount)
+                )}.`
+            );
+            break;
+        case "repayDebtWithOHM":
+            summary.push(
+                `Repay ${formatTokenAmount(
+                    await toOhmAmount(context, call.args._ohmAmount)
+                )} of debt.`
+            );
+            break;
+        case "repayDebtWithCollateral":
+            summary.push("Repay all debt with the gOHM collateral.");
+            break;
+        case "repayDebtWithCollateralAndWithdrawTheRest":
+            summary.push(
+                "Repay all debt with the gOHM collateral, and withdraw the rest of it."
+            );
+            break;
+        case "withdrawLP":
+            summary.push(
+                `Withdraw ${formatTokenAmount(
+                    await toTokenAmount(
+                        context,
+                        call.args._lpToken,
+                        call.args._liquidity
+                    )
+                )} LP tokens from IncurDebt.`
+            );
+            break;
+        case "createLP": {
+            const ohmAmount = await toOhmAmount(context, call.args._ohmAmount);
+            strategyParams = await decodeStrategyParams(
+                context,
+                call,
+                warnings
+            );
+            summary.push(
+                `Borrow ${formatTokenAmount(
+                    ohmAmount
+                )} to add liquidity with ${describeStrategy(
+                    call,
+                    strategyParams
+                )}.`
+            );
+            if (!strategyParams) break;
+
+            // The strategy deposits what it is told to, whatever was borrowed
+            const ohmDeposit = strategyParams.amounts.find((amount) =>
+                sameAddress(amount.token, context.deployment.ohm)
+            );
+            if (ohmDeposit && ohmDeposit.amount != ohmAmount.amount)
+                warnings.push(
+                    `${formatTokenAmount(ohmAmount)} is borrowed but the ${
+                        strategyParams.strategy
+                    } strategy params deposit ${formatTokenAmount(ohmDeposit)}.`
+                );
+            break;
+        }
+        case "removeLP":
+            strategyParams = await decodeStrategyParams(
+                context,
+                call,
+                warnings
+            );
+            summary.push(
+                `Remove liquidity with ${describeStrategy(
+                    call,
+                    strategyParams
+                )}, and repay debt with the OHM received.`
+            );
+            break;
+        case "approve":
+            summary.push(
+                `Approve ${call.args.spender} to spend ${formatTokenAmount(
+                    await toTokenAmount(context, tx.to ?? "", call.args.amount)
+                )}.`
+            );
+            if (!sameAddress(call.args.spender, incurDebtAddress))
+                warnings.push(
+                    `The approval is for ${call.args.spender}, not for IncurDebt at ${incurDebtAddress}.`
+                );
+            break;
+    }
+
+    if (strategyParams) {
+        if (strategyParams.pool)
+            summary.push(
+                `The ${strategyParams.strategy} pool is ${strategyParams.pool}.`
+            );
+        summary.push(...describeStrategyParams(strategyParams));
+    }
+
+    return {
+        to: tx.to,
+        ...decodeCall(data),
+        strategyParams,
+        summary,
+        warnings,
+    };
+}
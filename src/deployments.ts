@@ -0,0 +1,106 @@
+import { utils } from "ethers";
+import { readFile } from "fs/promises";
+
+import { InvalidInputError, UnsupportedChainError } from "./errors";
+import {
+    BalancerHelperAddress,
+    BalancerVaultAddress,
+    KnownDeployments,
+} from "./metadata/addresses";
+import { Deployment, DeploymentConfig } from "./types";
+
+// Deployments registered at runtime, laid over the known ones
+const registeredDeployments: { [chainId: number]: DeploymentConfig } = {};
+
+const mergeConfigs = (
+    base: DeploymentConfig,
+    config: DeploymentConfig = {}
+): DeploymentConfig => ({
+    ...base,
+    ...config,
+    strategies: { ...base.strategies, ...config.strategies },
+});
+
+export function registerDeployment(
+    chainId: number,
+    config: DeploymentConfig
+): void {
+    registeredDeployments[chainId] = config;
+}
+
+// Registers every deployment of a JSON file, keyed by chain id, and returns
+// the chain ids registered
+export async function loadDeployments(file: string): Promise<number[]> {
+    const deployments: { [chainId: string]: DeploymentConfig } = JSON.parse(
+        await readFile(file, "utf8")
+    );
+
+    const chainIds: number[] = [];
+    for (const [key, config] of Object.entries(deployments)) {
+        const chainId = Number(key);
+        if (!Number.isInteger(chainId) || chainId <= 0)
+            throw new InvalidInputError(
+                `Deployments file ${file} has an entry for ${key}, which is not a chain id.`
+            );
+
+        registerDeployment(chainId, config);
+        chainIds.push(chainId);
+    }
+
+    return chainIds;
+}
+
+export function getDeployment(
+    chainId: number,
+    overrides?: DeploymentConfig,
+    forks: number[] = []
+): Deployment {
+    if (forks.includes(chainId))
+        throw new InvalidInputError(
+            `The deployment of chain ${chainId} is a fork of itself, through chains ${[
+                ...forks,
+                chainId,
+            ].join(", ")}.`
+        );
+
+    let config = mergeConfigs(
+        mergeConfigs(
+            KnownDeployments[chainId] ?? {},
+            registeredDeployments[chainId]
+        ),
+        overrides
+    );
+    if (config.forkOf != undefined)
+        config = mergeConfigs(
+            getDeployment(config.forkOf, undefined, [...forks, chainId]),
+            config
+        );
+
+    if (!config.incurDebt) throw new UnsupportedChainError(chainId);
+    if (!config.ohm)
+        throw new InvalidInputError(
+            `The deployment of chain ${chainId} has no OHM address.`
+        );
+
+    const deployment: Deployment = {
+        incurDebt: config.incurDebt,
+        ohm: config.ohm,
+        gohm: config.gohm,
+        strategies: config.strategies ?? {},
+        balancerVault: config.balancerVault ?? BalancerVaultAddress,
+        balancerHelper: config.balancerHelper ?? BalancerHelperAddress,
+    };
+
+    const { strategies, ...contracts } = deployment;
+    for (const [name, address] of Object.entries({
+        ...contracts,
+        ...strategies,
+    }))
+        if (address != undefined && !utils.isAddress(address))
+            throw new InvalidInputError(
+                `Invalid ${name} address in the deployment of chain ${chainId}: ${address}`,
+                "INVALID_ADDRESS"
+            );
+
+    return deployment;
+}
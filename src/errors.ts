@@ -0,0 +1,147 @@
+import { utils } from "ethers";
+
+import { OHM_DECIMALS } from "./units";
+
+// The base of the errors thrown for input that can be fixed by whoever gave
+// it, as opposed to failing RPCs or bugs. Their code tells them apart the way
+// ethers' error codes do.
+export class IncurDebtError extends Error {
+    readonly code: string;
+
+    constructor(message: string, code: string) {
+        super(message);
+        this.name = new.target.name;
+        this.code = code;
+    }
+}
+
+export class InvalidInputError extends IncurDebtError {
+    constructor(message: string, code = "INVALID_INPUT") {
+        super(message, code);
+    }
+}
+
+export class InvalidAddressError extends InvalidInputError {
+    constructor(readonly label: string, readonly value: unknown) {
+        super(`Invalid ${label} address: ${value}`, "INVALID_ADDRESS");
+    }
+}
+
+export class InvalidAmountError extends InvalidInputError {
+    constructor(
+        readonly label: string,
+        readonly value: unknown,
+        message = `Invalid ${label}: ${value}, expected a whole number of base units.`
+    ) {
+        super(message, "INVALID_AMOUNT");
+    }
+}
+
+export class InvalidSlippageError extends InvalidInputError {
+    constructor(readonly value: unknown) {
+        super(
+            `Slippage must be at least 0 and below 1, got ${value}.`,
+            "INVALID_SLIPPAGE"
+        );
+    }
+}
+
+export class UnsupportedStrategyError extends IncurDebtError {
+    constructor(
+        readonly strategy: string,
+        readonly supported: string[],
+        message = `Unknown strategy ${strategy}. The registered strategies are: ${supported.join(
+            ", "
+        )}.`
+    ) {
+        super(message, "UNSUPPORTED_STRATEGY");
+    }
+}
+
+export class UnsupportedChainError extends IncurDebtError {
+    constructor(readonly chainId: number) {
+        super(
+            `No IncurDebt deployment is known on chain ${chainId}. Register its addresses with a deployments file or Context overrides, or set forkOf for a fork of a known chain.`,
+            "UNSUPPORTED_CHAIN"
+        );
+    }
+}
+
+export class ChainMismatchError extends IncurDebtError {
+    constructor(readonly expected: number, readonly actual: number) {
+        super(
+            `RPC is on chain ${actual} but chain ${expected} was requested.`,
+            "CHAIN_MISMATCH"
+        );
+    }
+}
+
+// A pool that can't be used the way it was asked to, i.e. without OHM or
+// with other tokens than those given
+export class PoolMismatchError extends IncurDebtError {
+    constructor(readonly pool: string, message: string) {
+        super(message, "POOL_MISMATCH");
+    }
+}
+
+// A pool holding none of the OHM its other amounts are priced against
+export class EmptyPoolError extends IncurDebtError {
+    constructor(message: string) {
+        super(message, "EMPTY_POOL");
+    }
+}
+
+export class InsufficientBorrowableError extends IncurDebtError {
+    constructor(
+        readonly borrower: string,
+        readonly requested: string,
+        readonly available: string
+    ) {
+        super(
+            `${borrower} can borrow ${utils.formatUnits(
+                available,
+                OHM_DECIMALS
+            )} OHM at most, but ${utils.formatUnits(
+                requested,
+                OHM_DECIMALS
+            )} OHM is requested.`,
+            "INSUFFICIENT_BORROWABLE"
+        );
+    }
+}
+
+// The pool's OHM price can't be checked against its reference, i.e. when
+// the TWAP's past state can't be read
+export class PriceGuardError extends IncurDebtError {
+    constructor(message: string, code = "PRICE_GUARD") {
+        super(message, code);
+    }
+}
+
+export class PriceDeviationError extends PriceGuardError {
+    constructor(
+        readonly deviationBps: string,
+        readonly maxDeviationBps: number,
+        message: string
+    ) {
+        super(message, "PRICE_DEVIATION");
+    }
+}
+
+// A transaction that was mined, but reverted
+export class TransactionRevertedError extends IncurDebtError {
+    constructor(readonly transactionHash: string, blockNumber: number) {
+        super(
+            `Transaction ${transactionHash} reverted in block ${blockNumber}.`,
+            "TRANSACTION_REVERTED"
+        );
+    }
+}
+
+// Nothing can be borrowed to provide liquidity with, for lack of headroom or
+// of the other tokens to match the OHM
+export class InsufficientHeadroomError extends IncurDebtError {
+    constructor(readonly borrower: string, message: string) {
+        super(message, "INSUFFICIENT_HEADROOM");
+    }
+}
@@ -0,0 +1,108 @@
+import { providers, Signer, UnsignedTransaction, utils, Wallet } from "ethers";
+import { readFile } from "fs/promises";
+
+import { Context } from "./context";
+import { ERC20ABI, IncurDebtABI } from "./metadata/abis";
+import { DecodedEvent, SignerOptions } from "./types";
+
+type TransactionRequest = providers.TransactionRequest;
+type TransactionReceipt = providers.TransactionReceipt;
+
+const eventInterfaces = [
+    new utils.Interface(IncurDebtABI),
+    new utils.Interface(ERC20ABI),
+];
+
+export async function loadSigner(
+    context: Context,
+    options: SignerOptions
+): Promise<Signer> {
+    let wallet: Wallet;
+
+    if (options.keystore) {
+        const password = process.env[options.keystorePasswordEnv];
+        if (password == undefined)
+            throw new Error(
+                `Set ${options.keystorePasswordEnv} to the password of the keystore.`
+            );
+
+        wallet = await Wallet.fromEncryptedJson(
+            await readFile(options.keystore, "utf8"),
+            password
+        );
+    } else if (options.privateKeyEnv) {
+        const privateKey = process.env[options.privateKeyEnv];
+        if (!privateKey)
+            throw new Error(
+                `Set ${options.privateKeyEnv} to the private key to sign with.`
+            );
+
+        wallet = new Wallet(privateKey);
+    } else {
+        throw new Error(
+            "Either a keystore or a private key env var is required to sign."
+        );
+    }
+
+    await context.verifyChainId();
+
+    return wallet.connect(context.fallbackProvider);
+}
+
+export async function prepareTransaction(
+    signer: Signer,
+    tx: UnsignedTransaction
+): Promise<TransactionRequest> {
+    const request: TransactionRequest = {
+        to: tx.to,
+        data: tx.data,
+        value: tx.value,
+    };
+
+    return await signer.populateTransaction(request);
+}
+
+export function decodeEvents(receipt: TransactionReceipt): DecodedEvent[] {
+    return receipt.logs.map((log) => {
+        for (const eventInterface of eventInterfaces) {
+            try {
+                const parsed = eventInterface.parseLog(log);
+
+                const args: { [key: string]: string } = {};
+                parsed.eventFragment.inputs.forEach((input, i) => {
+                    args[input.name] = parsed.args[i].toString();
+                });
+
+                return { address: log.address, name: parsed.name, args };
+            } catch {
+                continue;
+            }
+        }
+
+        return { address: log.address, name: "Unknown", args: {} };
+    });
+}
+
+export async function broadcastTransaction(
+    signer: Signer,
+    request: TransactionRequest,
+    confirmations = 1
+): Promise<[TransactionReceipt, DecodedEvent[]]> {
+    const response = await signer.sendTransaction(request);
+
+    // ethers rejects when a mined transaction reverted, with its receipt
+    let receipt: TransactionReceipt;
+    try {
+        receipt = await response.wait(confirmations);
+    } catch (error) {
+        const { code, receipt: revertedReceipt } = error as {
+            code?: string;
+            receipt?: TransactionReceipt;
+        };
+        if (code != utils.Logger.errors.CALL_EXCEPTION || !revertedReceipt)
+            throw error;
+        receipt = revertedReceipt;
+    }
+
+    return [receipt, decodeEvents(receipt)];
+}
@@ -0,0 +1,279 @@
+import { BigNumber, Contract, providers, utils } from "ethers";
+import { readFile, rename, writeFile } from "fs/promises";
+
+import {
+    BorrowerHistory,
+    HistoryOptions,
+    LedgerEntry,
+    LedgerEntryType,
+} from "./types";
+import { GOHM_DECIMALS, OHM_DECIMALS } from "./units";
+
+type BaseProvider = providers.BaseProvider;
+type Log = providers.Log;
+
+const CHECKPOINT_VERSION = 1;
+
+// Most RPCs cap the range of a getLogs query around this
+const DEFAULT_CHUNK_SIZE = 2000;
+
+// The ledger entry of each IncurDebt event, and which of its args is the
+// OHM, gOHM and LP amount
+const LedgerEvents: {
+    [event: string]: {
+        type: LedgerEntryType;
+        ohmAmount?: string;
+        gohmAmount?: string;
+        lpAmount?: string;
+    };
+} = {
+    BorrowerDeposit: { type: "deposit", gohmAmount: "amount" },
+    Borrowed: { type: "borrow", ohmAmount: "amount" },
+    LpAdded: { type: "lp-added", ohmAmount: "ohmAmount", lpAmount: "lpAmount" },
+    LpRemoved: {
+        type: "lp-removed",
+        ohmAmount: "ohmAmount",
+        lpAmount: "lpAmount",
+    },
+    LpWithdrawn: { type: "lp-withdrawn", lpAmount: "lpAmount" },
+    Withdrawal: { type: "withdrawal", gohmAmount: "amount" },
+    DebtPaidWithGOHM: { type: "repayment-gohm", gohmAmount: "amount" },
+    DebtPaidWithOHM: { type: "repayment-ohm", ohmAmount: "amount" },
+};
+
+interface HistoryCheckpoint extends BorrowerHistory {
+    version: number;
+    incurDebt: string;
+}
+
+async function readCheckpoint(
+    file: string
+): Promise<HistoryCheckpoint | undefined> {
+    let contents: string;
+    try {
+        contents = await readFile(file, "utf8");
+    } catch {
+        return;
+    }
+
+    const checkpoint: HistoryCheckpoint = JSON.parse(contents);
+    if (checkpoint.version != CHECKPOINT_VERSION)
+        throw new Error(
+            `Checkpoint ${file} has version ${checkpoint.version}, but version ${CHECKPOINT_VERSION} is expected.`
+        );
+
+    return checkpoint;
+}
+
+// Writing next to the checkpoint and renaming it over keeps the last one
+// whole if the process is stopped midway
+async function writeCheckpoint(
+    file: string,
+    checkpoint: HistoryCheckpoint
+): Promise<void> {
+    await writeFile(`${file}.tmp`, JSON.stringify(checkpoint, null, 4));
+    await rename(`${file}.tmp`, file);
+}
+
+// How RPCs word refusing a getLogs range that is too wide or holds too many
+// logs, e.g. Infura's "query returned more than 10000 results" or
+// "exceed maximum block range: 5000"
+const RANGE_LIMIT_MESSAGE =
+    /block range|range (is )?too (large|wide|big)|limited to .*range|too many (results|logs|blocks)|more than \d+ results|response size|limit exceeded/i;
+
+// Infura's code for a query returning too many results
+const LIMIT_EXCEEDED_CODE = -32005;
+
+type NodeError = { code?: unknown; message?: unknown; error?: unknown };
+
+// ethers nests the node's error, so the message and code are looked for
+// at every level
+function isRangeLimitError(error: unknown): boolean {
+    let cause = error as NodeError | undefined;
+    while (cause && typeof cause == "object") {
+        if (cause.code == LIMIT_EXCEEDED_CODE) return true;
+        if (
+            typeof cause.message == "string" &&
+            RANGE_LIMIT_MESSAGE.test(cause.message)
+        )
+            return true;
+        cause = cause.error as NodeError | undefined;
+    }
+    return false;
+}
+
+// Nodes refuse ranges holding too many logs, so those are split in halves
+// until they are accepted. Any other error is the node's to report.
+async function getLogsInChunks(
+    provider: BaseProvider,
+    filter: providers.Filter,
+    fromBlock: number,
+    toBlock: number
+): Promise<Log[]> {
+    try {
+        return await provider.getLogs({ ...filter, fromBlock, toBlock });
+    } catch (error) {
+        if (toBlock == fromBlock || !isRangeLimitError(error)) throw error;
+
+        const middle = fromBlock + Math.floor((toBlock - fromBlock) / 2);
+        return [
+            ...(await getLogsInChunks(provider, filter, fromBlock, middle)),
+            ...(await getLogsInChunks(provider, filter, middle + 1, toBlock)),
+        ];
+    }
+}
+
+async function toLedgerEntries(
+    provider: BaseProvider,
+    contract: Contract,
+    logs: Log[]
+): Promise<LedgerEntry[]> {
+    const timestamps: { [blockNumber: number]: number } = {};
+    const entries: LedgerEntry[] = [];
+
+    for (const log of logs) {
+        const parsed = contract.interface.parseLog(log);
+        const ledgerEvent = LedgerEvents[parsed.name];
+
+        timestamps[log.blockNumber] ??= (
+            await provider.getBlock(log.blockNumber)
+        ).timestamp;
+
+        const arg = (name?: string): string =>
+            name ? parsed.args[name].toString() : "0";
+
+        entries.push({
+            blockNumber: log.blockNumber,
+            timestamp: timestamps[log.blockNumber],
+            transactionHash: log.transactionHash,
+            logIndex: log.logIndex,
+            type: ledgerEvent.type,
+            event: parsed.name,
+            ohmAmount: arg(ledgerEvent.ohmAmount),
+            gohmAmount: arg(ledgerEvent.gohmAmount),
+            lpToken: parsed.args.lpToken,
+            lpAmount: ledgerEvent.lpAmount
+                ? arg(ledgerEvent.lpAmount)
+                : undefined,
+        });
+    }
+
+    return entries;
+}
+
+export async function getBorrowerHistory(
+    contract: Contract,
+    chainId: number,
+    borrower: string,
+    fromBlock: number,
+    toBlock: number,
+    options: HistoryOptions = {}
+): Promise<BorrowerHistory> {
+    const provider = contract.provider as BaseProvider;
+    const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    if (chunkSize < 1)
+        throw new Error(`The chunk size must be at least 1, got ${chunkSize}.`);
+    if (fromBlock > toBlock)
+        throw new Error(
+            `The scan must start before it ends, but goes from block ${fromBlock} to ${toBlock}.`
+        );
+
+    let checkpoint: HistoryCheckpoint = {
+        version: CHECKPOINT_VERSION,
+        incurDebt: contract.address,
+        borrower,
+        chainId,
+        fromBlock,
+        toBlock: fromBlock - 1,
+        entries: [],
+    };
+
+    if (options.checkpointFile) {
+        const saved = await readCheckpoint(options.checkpointFile);
+        if (saved) {
+            if (
+                saved.chainId != chainId ||
+                saved.incurDebt.toLowerCase() !=
+                    contract.address.toLowerCase() ||
+                saved.borrower.toLowerCase() != borrower.toLowerCase() ||
+                saved.fromBlock != fromBlock
+            )
+                throw new Error(
+                    `Checkpoint ${options.checkpointFile} is of another scan, of ${saved.borrower} from block ${saved.fromBlock} on chain ${saved.chainId}.`
+                );
+
+            checkpoint = saved;
+        }
+    }
+
+    // Every ledger event is indexed by borrower first
+    const filter = {
+        address: contract.address,
+        topics: [
+            Object.keys(LedgerEvents).map((event) =>
+                contract.interface.getEventTopic(event)
+            ),
+            utils.hexZeroPad(borrower, 32).toLowerCase(),
+        ],
+    };
+
+    for (
+        let start = checkpoint.toBlock + 1;
+        start <= toBlock;
+        start += chunkSize
+    ) {
+        const end = Math.min(start + chunkSize - 1, toBlock);
+        const logs = await getLogsInChunks(provider, filter, start, end);
+
+        checkpoint.entries.push(
+            ...(await toLedgerEntries(provider, contract, logs))
+        );
+        checkpoint.toBlock = end;
+
+        if (options.checkpointFile)
+            await writeCheckpoint(options.checkpointFile, checkpoint);
+    }
+
+    // A checkpoint may have been scanned further than asked for
+    return {
+        borrower,
+        chainId,
+        fromBlock,
+        toBlock,
+        entries: checkpoint.entries.filter(
+            (entry) => entry.blockNumber <= toBlock
+        ),
+    };
+}
+
+const CSV_HEADER = [
+    "date",
+    "block",
+    "transaction",
+    "log index",
+    "type",
+    "OHM",
+    "gOHM",
+    "LP token",
+    "LP amount",
+];
+
+const formatIfSet = (amount: string, decimals: number): string =>
+    BigNumber.from(amount).isZero() ? "" : utils.formatUnits(amount, decimals);
+
+export function historyToCsv(history: BorrowerHistory): string {
+    const rows = history.entries.map((entry) => [
+        new Date(entry.timestamp * 1000).toISOString(),
+        entry.blockNumber.toString(),
+        entry.transactionHash,
+        entry.logIndex.toString(),
+        entry.type,
+        formatIfSet(entry.ohmAmount, OHM_DECIMALS),
+        formatIfSet(entry.gohmAmount, GOHM_DECIMALS),
+        entry.lpToken ?? "",
+        // LP tokens don't share decimals, so their amounts are left raw
+        entry.lpAmount ?? "",
+    ]);
+
+    return [CSV_HEADER, ...rows].map((row) => row.join(",")).join("\n") + "\n";
+}
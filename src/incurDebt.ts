@@ -1,18 +1,78 @@
-import { BorrowerData, StrategyInterface } from "./types";
-import { BigNumber, Contract, providers, UnsignedTransaction } from "ethers";
-import { IncurDebtABI } from "./metadata/abis";
-import { IncurDebtAddress, StrategyAddresses } from "./metadata/addresses";
+import { BigNumber, Contract, UnsignedTransaction, utils } from "ethers";
+
 import { Context } from "./context";
+import {
+    InsufficientBorrowableError,
+    InsufficientHeadroomError,
+    InvalidInputError,
+    UnsupportedStrategyError,
+} from "./errors";
+import { getBorrowerHistory } from "./history";
+import { mulDiv } from "./math";
+import { ERC20ABI, GohmABI, IncurDebtABI } from "./metadata/abis";
+import {
+    checkPriceDeviation,
+    getUniswapV2Twap,
+    PRICE_DECIMALS,
+} from "./priceGuard";
+import { simulateTransaction } from "./simulation";
 import { Balancer } from "./strategies/Balancer";
 import { Curve } from "./strategies/Curve";
 import { Uniswap } from "./strategies/Uniswap";
+import { UniswapV3 } from "./strategies/UniswapV3";
+import {
+    BorrowerData,
+    BorrowerHistory,
+    HistoryOptions,
+    LiquidityPlan,
+    LiquidityPlanOptions,
+    LpPosition,
+    OhmPrice,
+    PlannedTokenAmount,
+    PositionReport,
+    PreflightResult,
+    PriceGuardOptions,
+    RegisteredStrategy,
+    SimulatedTransaction,
+    StrategyFactory,
+    StrategyInterface,
+    StrategyParams,
+    StrategyPosition,
+    TokenAmount,
+    UnwindBalances,
+    UnwindOptions,
+    UnwindPlan,
+    UnwindStep,
+} from "./types";
+import { formatAmount, GOHM_DECIMALS, OHM_DECIMALS, percentage } from "./units";
+import {
+    validateAddress,
+    validateAmount,
+    validateTokenAmounts,
+} from "./validation";
+
+interface TokenBalance {
+    symbol: string;
+    decimals: number;
+    balance: BigNumber;
+}
+
+// The other amounts of a strategy may not shrink exactly in proportion to the
+// OHM, so sizing the OHM down to the balances is retried a few times
+const MAX_SIZING_ROUNDS = 3;
 
-type JsonRpcProvider = providers.JsonRpcProvider;
+const BuiltInStrategies: { [key: string]: StrategyFactory } = {
+    uniswap: Uniswap.create,
+    sushiswap: Uniswap.create,
+    curve: Curve.create,
+    balancer: Balancer.create,
+    uniswapv3: UniswapV3.create,
+};
 
 export class IncurDebt {
     static abi = IncurDebtABI;
 
-    private _strategies: { [key: string]: string };
+    private _strategies: { [key: string]: RegisteredStrategy } = {};
 
     private _context: Context;
 
@@ -20,120 +80,888 @@ export class IncurDebt {
 
     constructor(context: Context) {
         this._context = context;
-        this._strategies = StrategyAddresses(context.chainId)!;
+
+        // Unknown chains fail here, before anything is built for them
+        const deployment = context.deployment;
         this.contract = new Contract(
-            IncurDebtAddress(context.chainId)!,
+            deployment.incurDebt,
             IncurDebt.abi,
-            context.provider
+            context.fallbackProvider
         );
+
+        // Strategies that aren't built in are left out, so that a deployment
+        // naming them only fails once one of them is used
+        for (const [name, address] of Object.entries(deployment.strategies)) {
+            const factory = BuiltInStrategies[name.toLowerCase()];
+            if (factory) this.registerStrategy(name, factory, address);
+        }
     }
 
-    async getDepositTx(gohmAmount: string): Promise<UnsignedTransaction> {
-        return await this.contract.populateTransaction.deposit(
-            BigNumber.from(gohmAmount)
+    private async _withSimulation(
+        tx: UnsignedTransaction,
+        simulateFrom?: string
+    ): Promise<SimulatedTransaction> {
+        if (!simulateFrom) return tx;
+        simulateFrom = validateAddress("sender to simulate from", simulateFrom);
+
+        return {
+            ...tx,
+            simulation: await simulateTransaction(
+                this._context.fallbackProvider,
+                this.contract.interface,
+                tx,
+                simulateFrom
+            ),
+        };
+    }
+
+    // Borrowing more than the collateral allows only reverts onchain, so it is
+    // refused up front whenever the borrower is known
+    private async _checkBorrowable(
+        borrower: string,
+        ohmAmount: string
+    ): Promise<void> {
+        const borrowable = await this.getBorrowable(borrower);
+        if (BigNumber.from(ohmAmount).gt(borrowable))
+            throw new InsufficientBorrowableError(
+                borrower,
+                ohmAmount,
+                borrowable
+            );
+    }
+
+    async getDepositTx(
+        gohmAmount: string,
+        simulateFrom?: string
+    ): Promise<SimulatedTransaction> {
+        gohmAmount = validateAmount("gOHM amount", gohmAmount);
+
+        return await this._withSimulation(
+            await this.contract.populateTransaction.deposit(
+                BigNumber.from(gohmAmount)
+            ),
+            simulateFrom
         );
     }
 
-    async getBorrowTx(ohmAmount: string): Promise<UnsignedTransaction> {
-        return await this.contract.populateTransaction.borrow(
-            BigNumber.from(ohmAmount)
+    async getBorrowTx(
+        ohmAmount: string,
+        simulateFrom?: string
+    ): Promise<SimulatedTransaction> {
+        ohmAmount = validateAmount("OHM amount", ohmAmount);
+        if (simulateFrom) await this._checkBorrowable(simulateFrom, ohmAmount);
+
+        return await this._withSimulation(
+            await this.contract.populateTransaction.borrow(
+                BigNumber.from(ohmAmount)
+            ),
+            simulateFrom
         );
     }
 
-    async getAddLiquidityTx(
+    registerStrategy<T = unknown>(
+        name: string,
+        factory: StrategyFactory<T>,
+        strategyContractAddress: string
+    ): void {
+        this._strategies[name.toLowerCase()] = {
+            factory: factory as StrategyFactory,
+            address: validateAddress(
+                `${name} strategy contract`,
+                strategyContractAddress
+            ),
+        };
+    }
+
+    get registeredStrategies(): string[] {
+        return Object.keys(this._strategies);
+    }
+
+    private _getStrategy(
+        strategy: string,
+        params: Omit<StrategyParams, "provider" | "chainId" | "deployment">
+    ): RegisteredStrategy & { instance: StrategyInterface } {
+        const registered = this._strategies[strategy.toLowerCase()];
+
+        if (!registered) {
+            const { chainId, deployment } = this._context;
+            const inDeployment = Object.keys(deployment.strategies).some(
+                (name) => name.toLowerCase() == strategy.toLowerCase()
+            );
+
+            throw new UnsupportedStrategyError(
+                strategy,
+                this.registeredStrategies,
+                inDeployment
+                    ? `The deployment of chain ${chainId} has an address for the ${strategy} strategy, which isn't built in. Register it with registerStrategy instead.`
+                    : undefined
+            );
+        }
+
+        const instance = registered.factory({
+            ...params,
+            provider: this._context.fallbackProvider,
+            chainId: this._context.chainId,
+            deployment: this._context.deployment,
+        });
+
+        return { ...registered, instance };
+    }
+
+    private async _checkOhmPrice(
+        instance: StrategyInterface,
+        strategy: string,
+        lpAddress: string,
+        priceGuard: PriceGuardOptions
+    ): Promise<void> {
+        if (!instance.getOhmSpotPrice)
+            throw new Error(
+                `The ${strategy} strategy can't report the pool's OHM price to guard it.`
+            );
+
+        const spot = await instance.getOhmSpotPrice();
+
+        let reference: OhmPrice;
+        if (priceGuard.referencePrice != undefined) {
+            reference = {
+                quoteToken: spot.quoteToken,
+                price: utils.parseUnits(
+                    priceGuard.referencePrice,
+                    PRICE_DECIMALS
+                ),
+            };
+        } else {
+            // Uniswap V2 style pools can be their own TWAP oracle
+            const twapPair =
+                priceGuard.twapPair ??
+                (["uniswap", "sushiswap"].includes(strategy.toLowerCase())
+                    ? lpAddress
+                    : undefined);
+            if (!twapPair)
+                throw new InvalidInputError(
+                    "A reference price or a Uniswap V2 pair to take a TWAP from is required to guard the OHM price."
+                );
+
+            reference = await getUniswapV2Twap(
+                this._context.fallbackProvider,
+                twapPair,
+                this._context.deployment.ohm,
+                priceGuard.twapBlocks
+            );
+        }
+
+        checkPriceDeviation(spot, reference, priceGuard.maxDeviationBps);
+    }
+
+    async getAddLiquidityTx<T = unknown>(
         sender: string,
         strategy: string,
         lpAddress: string,
-        slippage: number = 0.01,
+        slippage = 0.01,
         ohmAmount: string,
         otherTokens: string[] = [],
-        otherTokenAmounts: string[] = []
-    ): Promise<UnsignedTransaction> {
-        const provider: JsonRpcProvider = this._context.provider;
-        const strategies: { [key: string]: string } = this._strategies;
+        otherTokenAmounts: string[] = [],
+        options?: T,
+        simulateFrom?: string,
+        priceGuard?: PriceGuardOptions
+    ): Promise<SimulatedTransaction> {
+        sender = validateAddress("sender", sender);
+        ohmAmount = validateAmount("OHM amount", ohmAmount);
+        [otherTokens, otherTokenAmounts] = validateTokenAmounts(
+            otherTokens,
+            otherTokenAmounts
+        );
+        if (simulateFrom) await this._checkBorrowable(simulateFrom, ohmAmount);
+
+        const { instance, address } = this._getStrategy(strategy, {
+            sender,
+            lpAddress,
+            slippage,
+            ohmAmount,
+            otherTokens,
+            otherTokenAmounts,
+            options,
+        });
 
-        let tx: any;
+        if (priceGuard)
+            await this._checkOhmPrice(
+                instance,
+                strategy,
+                lpAddress,
+                priceGuard
+            );
 
-        strategy = strategy.toLowerCase();
+        const encodedParams = await instance.getAddLiquidityCalldata();
 
-        if (!strategies[strategy])
+        const tx = await this._withSimulation(
+            await this.contract.populateTransaction.createLP(
+                ohmAmount,
+                address,
+                encodedParams
+            ),
+            simulateFrom
+        );
+
+        const warnings = instance.getWarnings?.() ?? [];
+        return warnings.length ? { ...tx, warnings } : tx;
+    }
+
+    private async _getTokenBalance(
+        token: string,
+        owner: string
+    ): Promise<TokenBalance> {
+        const contract = new Contract(
+            token,
+            ERC20ABI,
+            this._context.fallbackProvider
+        );
+        const [[{ symbol, decimals }], balance] = await Promise.all([
+            this._context.getTokenMetadata([token]),
+            contract.balanceOf(owner),
+        ]);
+
+        return { symbol, decimals, balance: BigNumber.from(balance) };
+    }
+
+    private async _getOtherTokenAmounts<T>(
+        sender: string,
+        strategy: string,
+        lpAddress: string,
+        slippage: number,
+        ohmAmount: BigNumber,
+        options?: T
+    ): Promise<[string[], BigNumber[]]> {
+        const { instance } = this._getStrategy(strategy, {
+            sender,
+            lpAddress,
+            slippage,
+            ohmAmount: ohmAmount.toString(),
+            otherTokens: [],
+            otherTokenAmounts: [],
+            options,
+        });
+
+        if (!instance.getOtherTokenAmounts)
             throw new Error(
-                "The only available strategies are Curve, Uniswap, Sushiswap, or Balancer."
+                `The ${strategy} strategy can't report the other tokens it deposits to plan with.`
             );
 
-        let strategyInstance: StrategyInterface;
+        const [tokens, amounts] = await instance.getOtherTokenAmounts();
+        return [tokens, amounts.map((amount) => BigNumber.from(amount))];
+    }
 
-        if (strategy == "uniswap" || strategy == "sushiswap")
-            strategyInstance = new Uniswap(
-                lpAddress,
-                slippage,
-                ohmAmount,
-                provider,
-                this._context.chainId
+    // Sizes the OHM borrowed by getAddLiquidityTx to a share of the sender's
+    // headroom, lowered to what the sender's other tokens can be matched with
+    async planLiquidity<T = unknown>(
+        sender: string,
+        strategy: string,
+        lpAddress: string,
+        options: LiquidityPlanOptions<T> = {}
+    ): Promise<LiquidityPlan> {
+        sender = validateAddress("sender", sender);
+        const slippage = options.slippage ?? 0.01;
+        const headroomPercent = options.headroomPercent ?? 100;
+        if (!(headroomPercent > 0 && headroomPercent <= 100))
+            throw new InvalidInputError(
+                `The share of headroom to borrow must be above 0 and at most 100 percent, got ${headroomPercent}.`
             );
-        else if (strategy == "balancer")
-            strategyInstance = new Balancer(
+
+        const borrowable = BigNumber.from(await this.getBorrowable(sender));
+        const { debt, limit } = await this.getBorrowerData(sender);
+        const globalDebtLimit = await this.getGlobalDebtLimit();
+        const totalOutstandingDebt = await this.getTotalOutstandingDebt();
+
+        const headroom = (max: string, used: string): BigNumber =>
+            BigNumber.from(max).gt(used)
+                ? BigNumber.from(max).sub(used)
+                : BigNumber.from(0);
+        const borrowerHeadroom = headroom(limit, debt);
+        const globalHeadroom = headroom(globalDebtLimit, totalOutstandingDebt);
+
+        // The tightest of the three bounds the borrow
+        const [tightest, maxBorrow] = (
+            [
+                ["collateral", borrowable],
+                ["borrower limit", borrowerHeadroom],
+                ["global debt limit", globalHeadroom],
+            ] as [string, BigNumber][]
+        ).reduce((tightest, bound) =>
+            bound[1].lt(tightest[1]) ? bound : tightest
+        );
+        if (maxBorrow.isZero())
+            throw new InsufficientHeadroomError(
                 sender,
-                lpAddress,
-                otherTokens,
-                otherTokenAmounts,
-                slippage,
-                ohmAmount,
-                provider,
-                this._context.chainId
+                `${sender} can't borrow any OHM, for lack of ${tightest} headroom.`
             );
-        else
-            strategyInstance = new Curve(
+        let limitedBy = tightest;
+
+        let ohmAmount = maxBorrow
+            .mul(Math.round(headroomPercent * 100))
+            .div(10000);
+        if (headroomPercent < 100) limitedBy = "headroom percent";
+
+        // The other amounts grow with the OHM, so the OHM is scaled down to
+        // the balance that falls shortest of its amount
+        let tokens: string[] = [];
+        let amounts: BigNumber[] = [];
+        let balances: TokenBalance[] = [];
+        for (let round = 0; ; round++) {
+            [tokens, amounts] = await this._getOtherTokenAmounts(
+                sender,
+                strategy,
                 lpAddress,
                 slippage,
                 ohmAmount,
-                provider,
-                this._context.chainId
+                options.options
             );
 
-        const encodedParams = await strategyInstance.getAddLiquidityCalldata();
+            if (round == 0)
+                balances = await Promise.all(
+                    tokens.map((token) => this._getTokenBalance(token, sender))
+                );
 
-        tx = await this.contract.populateTransaction.createLP(
-            ohmAmount,
-            strategies[strategy],
-            encodedParams
+            let sized = ohmAmount;
+            for (const [i, { symbol, balance }] of balances.entries()) {
+                if (amounts[i].lte(balance)) continue;
+
+                const fit = mulDiv(ohmAmount, balance, amounts[i]);
+                if (fit.lt(sized)) {
+                    sized = fit;
+                    limitedBy = `${symbol} balance`;
+                }
+            }
+
+            if (sized.eq(ohmAmount)) break;
+            if (sized.isZero())
+                throw new InsufficientHeadroomError(
+                    sender,
+                    `${sender} holds none of the ${limitedBy.replace(
+                        / balance$/,
+                        ""
+                    )} to provide with the OHM borrowed.`
+                );
+            if (round == MAX_SIZING_ROUNDS)
+                throw new Error(
+                    `Couldn't size the OHM borrowed to the balances of ${sender}.`
+                );
+
+            ohmAmount = sized;
+        }
+
+        const tx = await this.getAddLiquidityTx(
+            sender,
+            strategy,
+            lpAddress,
+            slippage,
+            ohmAmount.toString(),
+            [],
+            [],
+            options.options,
+            options.simulate ? sender : undefined,
+            options.priceGuard
+        );
+
+        return {
+            sender,
+            strategy,
+            lpAddress,
+            borrowable: formatAmount(borrowable, OHM_DECIMALS),
+            borrowerHeadroom: formatAmount(borrowerHeadroom, OHM_DECIMALS),
+            globalHeadroom: formatAmount(globalHeadroom, OHM_DECIMALS),
+            maxBorrow: formatAmount(maxBorrow, OHM_DECIMALS),
+            headroomPercent,
+            ohmAmount: formatAmount(ohmAmount, OHM_DECIMALS),
+            limitedBy,
+            otherTokens: balances.map(
+                ({ symbol, decimals, balance }, i): PlannedTokenAmount => ({
+                    token: tokens[i],
+                    symbol,
+                    ...formatAmount(amounts[i], decimals),
+                    balance: formatAmount(balance, decimals),
+                })
+            ),
+            tx,
+        };
+    }
+
+    async getRemoveLiquidityTx<T = unknown>(
+        liquidity: string,
+        strategy: string,
+        lpAddress: string,
+        slippage = 0.01,
+        options?: T,
+        simulateFrom?: string
+    ): Promise<SimulatedTransaction> {
+        liquidity = validateAmount("liquidity", liquidity);
+
+        const { instance, address } = this._getStrategy(strategy, {
+            sender: this.contract.address,
+            lpAddress,
+            slippage,
+            ohmAmount: "0",
+            otherTokens: [],
+            otherTokenAmounts: [],
+            options,
+        });
+
+        const encodedParams = await instance.getRemoveLiquidityCalldata(
+            liquidity
         );
 
-        return tx;
+        return await this._withSimulation(
+            await this.contract.populateTransaction.removeLP(
+                BigNumber.from(liquidity),
+                address,
+                instance.getLpTokenAddress(),
+                encodedParams
+            ),
+            simulateFrom
+        );
     }
 
     async getWithdrawLiquidityTx(
         liquidity: string,
-        lpToken: string
-    ): Promise<UnsignedTransaction> {
-        return await this.contract.populateTransaction.withdrawLP(
-            BigNumber.from(liquidity),
-            lpToken
+        lpToken: string,
+        simulateFrom?: string
+    ): Promise<SimulatedTransaction> {
+        return await this._withSimulation(
+            await this.contract.populateTransaction.withdrawLP(
+                validateAmount("liquidity", liquidity),
+                validateAddress("LP token", lpToken)
+            ),
+            simulateFrom
         );
     }
 
-    async getWithdrawTx(gohmAmount: string): Promise<UnsignedTransaction> {
-        return await this.contract.populateTransaction.withdraw(
-            BigNumber.from(gohmAmount)
+    async getWithdrawTx(
+        gohmAmount: string,
+        simulateFrom?: string
+    ): Promise<SimulatedTransaction> {
+        return await this._withSimulation(
+            await this.contract.populateTransaction.withdraw(
+                validateAmount("gOHM amount", gohmAmount)
+            ),
+            simulateFrom
         );
     }
 
     async getRepayDebtTx(
         gohmAmount: string,
         withCollateral: boolean,
-        withdrawRest: boolean
-    ): Promise<UnsignedTransaction> {
+        withdrawRest: boolean,
+        simulateFrom?: string
+    ): Promise<SimulatedTransaction> {
         const populator = this.contract.populateTransaction;
+
+        let tx: UnsignedTransaction;
         if (withCollateral)
             if (withdrawRest)
-                return await populator.repayDebtWithCollateralAndWithdrawTheRest();
-            else return await populator.repayDebtWithCollateral();
+                tx =
+                    await populator.repayDebtWithCollateralAndWithdrawTheRest();
+            else tx = await populator.repayDebtWithCollateral();
+        else
+            tx = await populator.repayDebtWithOHM(
+                validateAmount("OHM amount", gohmAmount)
+            );
+
+        return await this._withSimulation(tx, simulateFrom);
+    }
+
+    async getApprovalPreflight(
+        owner: string,
+        token: string,
+        symbol: string,
+        amount: string
+    ): Promise<PreflightResult> {
+        owner = validateAddress("owner", owner);
+        amount = validateAmount(`${symbol} amount`, amount);
+
+        const tokenContract = new Contract(
+            validateAddress(symbol, token),
+            ERC20ABI,
+            this._context.fallbackProvider
+        );
+
+        const warnings: string[] = [];
+
+        const balance: BigNumber = await tokenContract.balanceOf(owner);
+        if (balance.lt(amount))
+            warnings.push(
+                `${owner} holds ${balance.toString()} ${symbol} but ${amount} is required.`
+            );
+
+        const allowance: BigNumber = await tokenContract.allowance(
+            owner,
+            this.contract.address
+        );
+        if (allowance.gte(amount)) return { txs: [], warnings };
+
+        warnings.push(
+            `${owner} has only approved ${allowance.toString()} ${symbol} to be spent by IncurDebt, an approval of ${amount} is included.`
+        );
+
+        return {
+            txs: [
+                await tokenContract.populateTransaction.approve(
+                    this.contract.address,
+                    BigNumber.from(amount)
+                ),
+            ],
+            warnings,
+        };
+    }
+
+    async getDepositTxWithApprovals(
+        sender: string,
+        gohmAmount: string
+    ): Promise<PreflightResult> {
+        const gohmAddress = this._context.deployment.gohm;
+        if (!gohmAddress)
+            throw new Error(
+                `The gOHM address is unknown on chain ${this._context.chainId}.`
+            );
+
+        const preflight = await this.getApprovalPreflight(
+            sender,
+            gohmAddress,
+            "gOHM",
+            gohmAmount
+        );
+        preflight.txs.push(await this.getDepositTx(gohmAmount));
+
+        return preflight;
+    }
+
+    async getRepayDebtTxWithApprovals(
+        sender: string,
+        gohmAmount: string,
+        withCollateral: boolean,
+        withdrawRest: boolean
+    ): Promise<PreflightResult> {
+        const repayTx = await this.getRepayDebtTx(
+            gohmAmount,
+            withCollateral,
+            withdrawRest
+        );
+
+        // Repaying with collateral doesn't transfer anything from the sender
+        if (withCollateral) return { txs: [repayTx], warnings: [] };
+
+        const preflight = await this.getApprovalPreflight(
+            sender,
+            this._context.deployment.ohm,
+            "OHM",
+            gohmAmount
+        );
+        preflight.txs.push(repayTx);
+
+        return preflight;
+    }
+
+    // The gOHM an amount of OHM is worth at the current index
+    private async _toGohm(ohmAmount: BigNumber): Promise<BigNumber> {
+        if (ohmAmount.isZero()) return ohmAmount;
+
+        const gohmAddress = this._context.deployment.gohm;
+        if (!gohmAddress)
+            throw new Error(
+                `The gOHM address is unknown on chain ${this._context.chainId}.`
+            );
+
+        return await new Contract(
+            gohmAddress,
+            GohmABI,
+            this._context.fallbackProvider
+        ).balanceTo(ohmAmount);
+    }
+
+    private async _toTokenAmount(
+        token: string,
+        amount: BigNumber
+    ): Promise<TokenAmount> {
+        const [{ symbol, decimals }] = await this._context.getTokenMetadata([
+            token,
+        ]);
+
+        return { token, symbol, ...formatAmount(amount, decimals) };
+    }
+
+    // Plans the txs unwinding a borrower's position, in order: removing LP,
+    // whose OHM repays debt, repaying what is left above the target debt,
+    // then withdrawing the gOHM no longer backing debt. The balances after
+    // each step are the ones expected before slippage.
+    async planUnwind(
+        borrower: string,
+        options: UnwindOptions = {}
+    ): Promise<UnwindPlan> {
+        borrower = validateAddress("borrower", borrower);
+        const targetDebt = BigNumber.from(
+            validateAmount("target debt", options.targetDebt ?? "0")
+        );
+        const slippage = options.slippage ?? 0.01;
+        const repayWith = options.repayWith ?? "ohm";
+        if (!["ohm", "collateral"].includes(repayWith))
+            throw new InvalidInputError(
+                `Debt is repaid with ohm or collateral, not ${repayWith}.`
+            );
+        const withdraw = options.withdraw ?? true;
+
+        const { ohm, gohm } = this._context.deployment;
+        const formatOhm = (amount: BigNumber) =>
+            `${utils.formatUnits(amount, OHM_DECIMALS)} OHM`;
+        const formatGohm = (amount: BigNumber) =>
+            `${utils.formatUnits(amount, GOHM_DECIMALS)} gOHM`;
+
+        const borrowerData = await this.getBorrowerData(borrower);
+        let debt = BigNumber.from(borrowerData.debt);
+        let collateral = BigNumber.from(borrowerData.collateralInGOHM);
+        let ohmBalance: BigNumber = await new Contract(
+            ohm,
+            ERC20ABI,
+            this._context.fallbackProvider
+        ).balanceOf(borrower);
+
+        const positions = [];
+        const lpTokens: { [lpToken: string]: BigNumber } = {};
+        for (const position of options.positions ?? []) {
+            const { instance } = this._getStrategy(position.strategy, {
+                sender: borrower,
+                lpAddress: position.lpAddress,
+                slippage,
+                ohmAmount: "0",
+                otherTokens: [],
+                otherTokenAmounts: [],
+                options: position.options,
+            });
+            const lpToken = instance.getLpTokenAddress();
+            lpTokens[lpToken] = BigNumber.from(
+                await this.getBalanceOfLpToken(borrower, lpToken)
+            );
+            positions.push({ ...position, instance, lpToken });
+        }
+
+        const balances = (): UnwindBalances => ({
+            debt: formatAmount(debt, OHM_DECIMALS),
+            collateral: formatAmount(collateral, GOHM_DECIMALS),
+            ohm: formatAmount(ohmBalance, OHM_DECIMALS),
+            lpTokens: Object.keys(lpTokens).reduce(
+                (held, lpToken) => ({
+                    ...held,
+                    [lpToken]: lpTokens[lpToken].toString(),
+                }),
+                {}
+            ),
+        });
+
+        const before = balances();
+        const steps: UnwindStep[] = [];
+        const warnings: string[] = [];
+
+        for (const {
+            strategy,
+            lpAddress,
+            instance,
+            lpToken,
+            ...position
+        } of positions) {
+            // A full unwind removes every position, a partial one only what
+            // gets the debt down to the target
+            if (!targetDebt.isZero() && debt.lte(targetDebt)) break;
+
+            const owned = lpTokens[lpToken];
+            if (owned.isZero()) {
+                warnings.push(
+                    `IncurDebt holds no ${lpToken} LP tokens for ${borrower} to remove.`
+                );
+                continue;
+            }
+            if (!instance.getRemoveLiquidityAmounts)
+                throw new Error(
+                    `The ${strategy} strategy can't report what removing liquidity returns to plan with.`
+                );
+
+            const ohmOut = (tokens: string[], amounts: string[]): BigNumber => {
+                const i = tokens.findIndex(
+                    (token) => token.toLowerCase() == ohm.toLowerCase()
+                );
+                return BigNumber.from(i == -1 ? 0 : amounts[i]);
+            };
+
+            let liquidity = owned;
+            let [tokens, amounts] = await instance.getRemoveLiquidityAmounts(
+                owned.toString()
+            );
+            const needed = debt.sub(targetDebt);
+            if (!targetDebt.isZero() && ohmOut(tokens, amounts).gt(needed)) {
+                liquidity = mulDiv(
+                    owned,
+                    needed,
+                    ohmOut(tokens, amounts),
+                    "up"
+                );
+                [tokens, amounts] = await instance.getRemoveLiquidityAmounts(
+                    liquidity.toString()
+                );
+            }
+
+            // The OHM received repays debt, and only what exceeds the debt
+            // is sent on to the borrower
+            const ohmReceived = ohmOut(tokens, amounts);
+            const repaid = ohmReceived.lt(debt) ? ohmReceived : debt;
+            debt = debt.sub(repaid);
+            ohmBalance = ohmBalance.add(ohmReceived.sub(repaid));
+            lpTokens[lpToken] = owned.sub(liquidity);
+
+            const received: TokenAmount[] = [];
+            for (const [i, token] of tokens.entries()) {
+                const amount =
+                    token.toLowerCase() == ohm.toLowerCase()
+                        ? ohmReceived.sub(repaid)
+                        : BigNumber.from(amounts[i]);
+                if (!amount.isZero())
+                    received.push(await this._toTokenAmount(token, amount));
+            }
+
+            steps.push({
+                action: "removeLP",
+                description: `Remove ${liquidity.toString()} of ${lpToken} liquidity, repaying ${formatOhm(
+                    repaid
+                )} of debt with its OHM.`,
+                tx: await this.getRemoveLiquidityTx(
+                    liquidity.toString(),
+                    strategy,
+                    lpAddress,
+                    slippage,
+                    position.options
+                ),
+                received,
+                after: balances(),
+            });
+        }
+
+        if (debt.gt(targetDebt) && repayWith == "ohm") {
+            const amount = debt.sub(targetDebt);
+            if (ohmBalance.lt(amount))
+                warnings.push(
+                    `${borrower} is expected to hold ${formatOhm(
+                        ohmBalance
+                    )}, but repaying the debt left takes ${formatOhm(amount)}.`
+                );
+
+            const { txs } = await this.getApprovalPreflight(
+                borrower,
+                ohm,
+                "OHM",
+                amount.toString()
+            );
+            for (const tx of txs)
+                steps.push({
+                    action: "approve",
+                    description: `Approve IncurDebt to spend ${formatOhm(
+                        amount
+                    )}.`,
+                    tx,
+                    received: [],
+                    after: balances(),
+                });
+
+            debt = targetDebt;
+            ohmBalance = ohmBalance.gt(amount)
+                ? ohmBalance.sub(amount)
+                : BigNumber.from(0);
+            steps.push({
+                action: "repayDebtWithOHM",
+                description: `Repay ${formatOhm(
+                    amount
+                )} of debt with the borrower's OHM.`,
+                tx: await this.getRepayDebtTx(amount.toString(), false, false),
+                received: [],
+                after: balances(),
+            });
+        } else if (debt.gt(targetDebt)) {
+            if (!targetDebt.isZero())
+                throw new InvalidInputError(
+                    `Repaying with collateral repays all of the debt, so it can't repay down to a target debt of ${formatOhm(
+                        targetDebt
+                    )}. Repay with OHM instead.`
+                );
+
+            const gohmUsed = await this._toGohm(debt);
+            if (gohmUsed.gt(collateral))
+                warnings.push(
+                    `Repaying ${formatOhm(debt)} of debt takes ${formatGohm(
+                        gohmUsed
+                    )} of collateral, but only ${formatGohm(
+                        collateral
+                    )} is held.`
+                );
+
+            const repaid = debt;
+            debt = BigNumber.from(0);
+            collateral = collateral.gt(gohmUsed)
+                ? collateral.sub(gohmUsed)
+                : BigNumber.from(0);
+
+            // The rest of the collateral can be withdrawn in the same tx
+            const received: TokenAmount[] = [];
+            if (withdraw && gohm && !collateral.isZero())
+                received.push({
+                    token: gohm,
+                    symbol: "gOHM",
+                    ...formatAmount(collateral, GOHM_DECIMALS),
+                });
+            const withdrawn = withdraw ? collateral : BigNumber.from(0);
+            if (withdraw) collateral = BigNumber.from(0);
+
+            steps.push({
+                action: withdraw
+                    ? "repayDebtWithCollateralAndWithdrawTheRest"
+                    : "repayDebtWithCollateral",
+                description: `Repay ${formatOhm(
+                    repaid
+                )} of debt with ${formatGohm(gohmUsed)} of collateral${
+                    withdraw
+                        ? `, and withdraw the other ${formatGohm(withdrawn)}`
+                        : ""
+                }.`,
+                tx: await this.getRepayDebtTx("0", true, withdraw),
+                received,
+                after: balances(),
+            });
+        }
+
+        // Only the gOHM beyond what backs the debt left can be withdrawn
+        const backing = await this._toGohm(debt);
+        if (withdraw && collateral.gt(backing)) {
+            const amount = collateral.sub(backing);
+            collateral = backing;
 
-        return await populator.repayDebtWithOHM(BigNumber.from(gohmAmount));
+            steps.push({
+                action: "withdraw",
+                description: `Withdraw ${formatGohm(
+                    amount
+                )} of collateral no longer backing debt.`,
+                tx: await this.getWithdrawTx(amount.toString()),
+                received: gohm
+                    ? [
+                          {
+                              token: gohm,
+                              symbol: "gOHM",
+                              ...formatAmount(amount, GOHM_DECIMALS),
+                          },
+                      ]
+                    : [],
+                after: balances(),
+            });
+        }
+
+        return { borrower, before, steps, warnings };
     }
 
     async getBorrowerData(borrower: string): Promise<BorrowerData> {
-        const result: Array<any> = await this.contract.borrowers(borrower);
+        const result: Array<any> = await this.contract.borrowers(
+            validateAddress("borrower", borrower)
+        );
         return {
             debt: result[0].toString(),
             limit: result[1].toString(),
@@ -144,19 +972,140 @@ export class IncurDebt {
         };
     }
 
+    // What removing all of the liquidity would return, before slippage
+    private async _getLpUnderlying(
+        strategy: string,
+        instance: StrategyInterface,
+        balance: BigNumber
+    ): Promise<TokenAmount[]> {
+        if (balance.isZero()) return [];
+        if (!instance.getRemoveLiquidityAmounts)
+            throw new Error(
+                `The ${strategy} strategy can't report what removing liquidity returns.`
+            );
+
+        const [tokens, amounts] = await instance.getRemoveLiquidityAmounts(
+            balance.toString()
+        );
+
+        // Balancer pools holding their own BPT list it among their tokens
+        const lpToken = instance.getLpTokenAddress().toLowerCase();
+        return await Promise.all(
+            tokens
+                .map((token, i): [string, string] => [token, amounts[i]])
+                .filter(([token]) => token.toLowerCase() != lpToken)
+                .map(([token, amount]) =>
+                    this._toTokenAmount(token, BigNumber.from(amount))
+                )
+        );
+    }
+
+    // Positions given as an address are Uniswap V2 style pairs
+    async getPositionReport(
+        borrower: string,
+        positions: (string | StrategyPosition)[] = []
+    ): Promise<PositionReport> {
+        borrower = validateAddress("borrower", borrower);
+
+        const borrowerData = await this.getBorrowerData(borrower);
+        const borrowable = await this.getBorrowable(borrower);
+        const globalDebtLimit = await this.getGlobalDebtLimit();
+        const totalOutstandingDebt = await this.getTotalOutstandingDebt();
+
+        const lpPositions: LpPosition[] = [];
+        for (const position of positions) {
+            const { strategy, lpAddress, options }: StrategyPosition =
+                typeof position == "string"
+                    ? { strategy: "uniswap", lpAddress: position }
+                    : position;
+            const { instance } = this._getStrategy(strategy, {
+                sender: borrower,
+                lpAddress,
+                slippage: 0.01,
+                ohmAmount: "0",
+                otherTokens: [],
+                otherTokenAmounts: [],
+                options,
+            });
+            const lpToken = instance.getLpTokenAddress();
+            const balance = await this.getBalanceOfLpToken(borrower, lpToken);
+
+            lpPositions.push({
+                strategy,
+                lpAddress: lpToken,
+                balance,
+                underlying: await this._getLpUnderlying(
+                    strategy,
+                    instance,
+                    BigNumber.from(balance)
+                ),
+            });
+        }
+
+        const debt = BigNumber.from(borrowerData.debt);
+
+        return {
+            borrower,
+            debt: formatAmount(borrowerData.debt, OHM_DECIMALS),
+            limit: formatAmount(borrowerData.limit, OHM_DECIMALS),
+            collateral: formatAmount(
+                borrowerData.collateralInGOHM,
+                GOHM_DECIMALS
+            ),
+            borrowable: formatAmount(borrowable, OHM_DECIMALS),
+            debtToLimitPercent: percentage(debt, borrowerData.limit),
+            collateralUtilizationPercent: percentage(
+                debt,
+                debt.add(borrowable)
+            ),
+            globalDebtLimit: formatAmount(globalDebtLimit, OHM_DECIMALS),
+            totalOutstandingDebt: formatAmount(
+                totalOutstandingDebt,
+                OHM_DECIMALS
+            ),
+            globalDebtUtilizationPercent: percentage(
+                totalOutstandingDebt,
+                globalDebtLimit
+            ),
+            shareOfGlobalDebtPercent: percentage(debt, globalDebtLimit),
+            lpPositions,
+        };
+    }
+
+    // Rebuilds the ledger of a borrower from IncurDebt's events, toBlock
+    // defaults to the latest block
+    async getHistory(
+        borrower: string,
+        fromBlock: number,
+        toBlock?: number,
+        options?: HistoryOptions
+    ): Promise<BorrowerHistory> {
+        return await getBorrowerHistory(
+            this.contract,
+            this._context.chainId,
+            validateAddress("borrower", borrower),
+            fromBlock,
+            toBlock ?? (await this._context.fallbackProvider.getBlockNumber()),
+            options
+        );
+    }
+
     async getBalanceOfLpToken(
         accountAddress: string,
         lpAddress: string
     ): Promise<string> {
         return (
-            await this.contract.lpTokenOwnership(lpAddress, accountAddress)
+            await this.contract.lpTokenOwnership(
+                validateAddress("LP token", lpAddress),
+                validateAddress("account", accountAddress)
+            )
         ).toString();
     }
 
     async getBorrowable(accountAddress: string): Promise<string> {
         return (
             await this.contract.callStatic.getAvailableToBorrow({
-                from: accountAddress,
+                from: validateAddress("account", accountAddress),
             })
         ).toString();
     }
@@ -1,3 +1,24 @@
 export { Context } from "./context";
+export { decodeIncurDebtTx } from "./decode";
+export {
+    getDeployment,
+    loadDeployments,
+    registerDeployment,
+} from "./deployments";
+export * from "./errors";
+export { historyToCsv } from "./history";
 export { IncurDebt } from "./incurDebt";
+export { multicall, tryMulticall } from "./multicall";
+export {
+    addLiqParamsSchema,
+    detectPoolTokens,
+    parseAddLiquidityParams,
+    readAddLiquidityParams,
+    validateAddLiquidityParams,
+} from "./params";
+export { getSafeBatch } from "./safe";
+export { Balancer } from "./strategies/Balancer";
+export { Curve } from "./strategies/Curve";
+export { Uniswap } from "./strategies/Uniswap";
+export { UniswapV3 } from "./strategies/UniswapV3";
 export * from "./types";
@@ -0,0 +1,72 @@
+import { BigNumber, BigNumberish } from "ethers";
+import { parseUnits } from "ethers/lib/utils";
+
+import { validateSlippage } from "./validation";
+
+export type Rounding = "down" | "up";
+
+// Fixed point one, ratios and factors are scaled by it
+export const WAD_DECIMALS = 18;
+export const WAD = BigNumber.from(10).pow(WAD_DECIMALS);
+
+export function mulDiv(
+    a: BigNumberish,
+    b: BigNumberish,
+    denominator: BigNumberish,
+    rounding: Rounding = "down"
+): BigNumber {
+    if (BigNumber.from(denominator).isZero())
+        throw new Error("Division by zero.");
+
+    const product = BigNumber.from(a).mul(b);
+    const quotient = product.div(denominator);
+
+    if (rounding == "up" && !product.mod(denominator).isZero())
+        return quotient.add(1);
+    return quotient;
+}
+
+export const wadMul = (
+    a: BigNumberish,
+    b: BigNumberish,
+    rounding: Rounding = "down"
+): BigNumber => mulDiv(a, b, WAD, rounding);
+
+export const wadDiv = (
+    a: BigNumberish,
+    b: BigNumberish,
+    rounding: Rounding = "down"
+): BigNumber => mulDiv(a, WAD, b, rounding);
+
+// Converts a decimal number, i.e. a slippage of 0.005, to a WAD
+export function toWad(value: number | string): BigNumber {
+    let decimal = value.toString();
+
+    // Small numbers are printed in exponent notation, i.e. 1e-7
+    if (decimal.includes("e")) decimal = Number(value).toFixed(WAD_DECIMALS);
+
+    return parseUnits(decimal, WAD_DECIMALS);
+}
+
+export function scaleDecimals(
+    amount: BigNumberish,
+    fromDecimals: BigNumberish,
+    toDecimals: BigNumberish,
+    rounding: Rounding = "down"
+): BigNumber {
+    const difference = BigNumber.from(toDecimals).sub(fromDecimals);
+
+    if (difference.gte(0))
+        return BigNumber.from(amount).mul(BigNumber.from(10).pow(difference));
+    return mulDiv(
+        amount,
+        1,
+        BigNumber.from(10).pow(difference.abs()),
+        rounding
+    );
+}
+
+// The share of an amount that is still acceptable after slippage, as a WAD
+export function slippageFactor(slippage: number): BigNumber {
+    return WAD.sub(toWad(validateSlippage(slippage)));
+}
@@ -3,12 +3,12 @@ export const BorrowerData = [
 ];
 
 export const IncurDebtABI = [
-    "function deposit(uint256)",
-    "function borrow(uint256)",
-    "function createLP(uint256, address, bytes) returns (uint256)",
-    "function removeLP(uint256, address, address, bytes) returns (uint256)",
-    "function withdrawLP(uint256, address)",
-    "function withdraw(uint256)",
+    "function deposit(uint256 _amount)",
+    "function borrow(uint256 _ohmAmount)",
+    "function createLP(uint256 _ohmAmount, address _strategy, bytes _strategyParams) returns (uint256)",
+    "function removeLP(uint256 _liquidity, address _strategy, address _lpToken, bytes _strategyParams) returns (uint256)",
+    "function withdrawLP(uint256 _liquidity, address _lpToken)",
+    "function withdraw(uint256 _gohmAmount)",
     "function repayDebtWithCollateral() public",
     "function repayDebtWithCollateralAndWithdrawTheRest()",
     "function repayDebtWithOHM(uint256 _ohmAmount)",
@@ -17,38 +17,100 @@ export const IncurDebtABI = [
     "function globalDebtLimit() view returns (uint256)",
     "function lpTokenOwnership(address, address) view returns (uint256)",
     `function borrowers(address) view returns (${BorrowerData})`,
+    "event BorrowerDeposit(address indexed borrower, uint256 amount)",
+    "event Borrowed(address indexed borrower, uint256 amount, uint256 borrowerDebt, uint256 totalOutstandingDebt)",
+    "event LpAdded(address indexed borrower, address indexed lpToken, uint256 ohmAmount, uint256 lpAmount)",
+    "event LpRemoved(address indexed borrower, address indexed lpToken, uint256 lpAmount, uint256 ohmAmount)",
+    "event LpWithdrawn(address indexed borrower, address indexed lpToken, uint256 lpAmount)",
+    "event Withdrawal(address indexed borrower, uint256 amount)",
+    "event DebtPaidWithGOHM(address indexed borrower, uint256 amount)",
+    "event DebtPaidWithOHM(address indexed borrower, uint256 amount)",
 ];
 
 export const StableSwapABI = [
     "function coins(uint256) view returns (address)",
-    "function balances(uint256) view returns (address)",
-    "function calc_token_amount(uint256[2], bool) view returns (uint256)",
+    "function balances(uint256) view returns (uint256)",
+];
+
+// StableSwap pools index coins with int128, CryptoSwap pools with uint256
+export const CurveGetDyABI = [
+    "function get_dy(int128, int128, uint256) view returns (uint256)",
+    "function get_dy(uint256, uint256, uint256) view returns (uint256)",
+];
+
+// StableSwap and some CryptoSwap pools take an is_deposit flag, other
+// CryptoSwap pools only take the amounts
+export const CurveCalcTokenAmountABI = (nCoins: number): string[] => [
+    `function calc_token_amount(uint256[${nCoins}], bool) view returns (uint256)`,
+    `function calc_token_amount(uint256[${nCoins}]) view returns (uint256)`,
 ];
 
 export const UniswapV2ABI = [
     "function token0() view returns (address)",
     "function token1() view returns (address)",
     "function getReserves() view returns (uint112, uint112, uint32)",
+    "function totalSupply() view returns (uint256)",
+    "function price0CumulativeLast() view returns (uint256)",
+    "function price1CumulativeLast() view returns (uint256)",
+];
+
+export const UniswapV3PoolABI = [
+    "function token0() view returns (address)",
+    "function token1() view returns (address)",
+    "function fee() view returns (uint24)",
+    "function tickSpacing() view returns (int24)",
+    "function liquidity() view returns (uint128)",
+    "function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)",
 ];
 
 export const JoinPoolRequest = [
     "tuple(address[] assets, uint256[] maxAmountsIn, bytes userData, bool fromInternalBalance)",
 ];
 
+export const ExitPoolRequest = [
+    "tuple(address[] assets, uint256[] minAmountsOut, bytes userData, bool toInternalBalance)",
+];
+
 export const BalancerHelpersABI = [
     `function queryJoin(bytes32, address, address, ${JoinPoolRequest}) returns (uint256, uint256[])`,
+    `function queryExit(bytes32, address, address, ${ExitPoolRequest}) returns (uint256, uint256[])`,
+];
+
+// Functions of the pool types Balancer can tell apart by, and their supply
+export const BalancerPoolABI = [
+    "function getNormalizedWeights() view returns (uint256[])",
+    "function getBptIndex() view returns (uint256)",
+    "function getAmplificationParameter() view returns (uint256, bool, uint256)",
+    "function getScalingFactors() view returns (uint256[])",
+    "function getActualSupply() view returns (uint256)",
+    "function getVirtualSupply() view returns (uint256)",
+    "function totalSupply() view returns (uint256)",
 ];
 
 export const BalancerVaultABI = [
     "function getPoolTokens(bytes32) external view returns (address[] memory, uint256[] memory, uint256)",
+    "function queryBatchSwap(uint8, tuple(bytes32 poolId, uint256 assetInIndex, uint256 assetOutIndex, uint256 amount, bytes userData)[], address[], tuple(address sender, bool fromInternalBalance, address recipient, bool toInternalBalance)) returns (int256[])",
+];
+
+// gOHM's conversion of OHM to the gOHM it is worth at the current index
+export const GohmABI = [
+    "function balanceTo(uint256 _amount) view returns (uint256)",
+];
+
+// Multicall3 runs several calls in one, reporting how each went
+export const Multicall3ABI = [
+    "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)",
 ];
 
 export const ERC20ABI = [
-    "function approve(address, uint256) returns (bool)",
-    "function transferFrom(address, address, uint256) returns (bool)",
-    "function transfer(address, uint256) returns (bool)",
+    "function approve(address spender, uint256 amount) returns (bool)",
+    "function transferFrom(address from, address to, uint256 amount) returns (bool)",
+    "function transfer(address to, uint256 amount) returns (bool)",
     "function totalSupply() view returns (uint256)",
     "function balanceOf(address) view returns (uint256)",
     "function decimals() view returns(uint256)",
+    "function symbol() view returns (string)",
     "function allowance(address, address) view returns (uint256)",
+    "event Transfer(address indexed from, address indexed to, uint256 value)",
+    "event Approval(address indexed owner, address indexed spender, uint256 value)",
 ];
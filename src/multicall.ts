@@ -0,0 +1,100 @@
+import { Contract, providers, utils } from "ethers";
+
+import { Multicall3ABI } from "./metadata/abis";
+import { Multicall3Address } from "./metadata/addresses";
+
+type BaseProvider = providers.BaseProvider;
+
+export interface ContractCall {
+    contract: Contract;
+    method: string;
+    args?: unknown[];
+}
+
+// Providers whose chain turned out not to have Multicall3, so that it
+// isn't tried again for every batch
+const withoutMulticall = new WeakSet<BaseProvider>();
+
+// Functions with a single output return it rather than a Result, as
+// Contract methods do
+const unwrap = (result: utils.Result): unknown =>
+    result.length == 1 ? result[0] : result;
+
+const callDirectly = async ({
+    contract,
+    method,
+    args = [],
+}: ContractCall): Promise<unknown> => await contract[method](...args);
+
+// The results of the calls batched through Multicall3, undefined for the
+// calls that failed, or undefined altogether when it can't be used
+async function aggregate(
+    provider: BaseProvider,
+    calls: ContractCall[]
+): Promise<(utils.Result | undefined)[] | undefined> {
+    if (calls.length < 2 || withoutMulticall.has(provider)) return undefined;
+
+    let results: [boolean, string][];
+    try {
+        results = await new Contract(
+            Multicall3Address,
+            Multicall3ABI,
+            provider
+        ).callStatic.aggregate3(
+            calls.map(({ contract, method, args = [] }) => ({
+                target: contract.address,
+                allowFailure: true,
+                callData: contract.interface.encodeFunctionData(method, args),
+            }))
+        );
+    } catch (error) {
+        // Calling an address without code returns nothing to decode
+        if (
+            (error as { code?: string }).code ==
+            utils.Logger.errors.CALL_EXCEPTION
+        )
+            withoutMulticall.add(provider);
+        return undefined;
+    }
+
+    return results.map(([success, returnData], i) => {
+        if (!success) return undefined;
+        try {
+            const { contract, method } = calls[i];
+            return contract.interface.decodeFunctionResult(method, returnData);
+        } catch {
+            return undefined;
+        }
+    });
+}
+
+// Reads several contract functions in a single eth_call through Multicall3,
+// or in parallel where it isn't deployed or the batch fails. A call failing
+// in the batch is made again on its own, so that it rejects with its own
+// error.
+export async function multicall<T extends unknown[]>(
+    provider: BaseProvider,
+    calls: ContractCall[]
+): Promise<T> {
+    const results = await aggregate(provider, calls);
+
+    return (await Promise.all(
+        calls.map(async (call, i) => {
+            const result = results?.[i];
+            return result ? unwrap(result) : await callDirectly(call);
+        })
+    )) as T;
+}
+
+// Like multicall, but the calls that fail resolve to undefined
+export async function tryMulticall(
+    provider: BaseProvider,
+    calls: ContractCall[]
+): Promise<unknown[]> {
+    const results = await aggregate(provider, calls);
+    if (results) return results.map((result) => result && unwrap(result));
+
+    return await Promise.all(
+        calls.map((call) => callDirectly(call).catch(() => undefined))
+    );
+}
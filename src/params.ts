@@ -0,0 +1,192 @@
+import Ajv, { ErrorObject } from "ajv";
+import { constants, Contract } from "ethers";
+import { readFile } from "fs/promises";
+import { parse } from "yaml";
+
+import { Context } from "./context";
+import { InvalidInputError } from "./errors";
+import { UniswapV2ABI } from "./metadata/abis";
+import { multicall } from "./multicall";
+import schema from "./schemas/addLiqParams.v1.json";
+import { Balancer } from "./strategies/Balancer";
+import { Curve } from "./strategies/Curve";
+import { AddLiquidityParams, PoolToken } from "./types";
+import { validateAddress } from "./validation";
+
+export const ADD_LIQ_PARAMS_VERSION = 1;
+
+export const addLiqParamsSchema = schema;
+
+const validateSchema = new Ajv({
+    allErrors: true,
+    verbose: true,
+}).compile<AddLiquidityParams>(schema);
+
+function describeSchemaError(error: ErrorObject): string {
+    const path = error.instancePath || "The params";
+
+    switch (error.keyword) {
+        case "required":
+            return `${error.instancePath}/${error.params.missingProperty} is required`;
+        case "additionalProperties":
+            return `${error.instancePath}/${error.params.additionalProperty} is not a known field`;
+        case "enum":
+            return `${path} must be one of ${error.params.allowedValues.join(
+                ", "
+            )}`;
+        case "anyOf":
+            // Alternatives are described rather than listing why each failed
+            return `${path} is invalid: ${
+                error.parentSchema?.description ?? error.message
+            }`;
+        default:
+            return `${path} ${error.message}`;
+    }
+}
+
+// An anyOf also reports why each of its alternatives failed, including
+// through the definitions they refer to, which is left out for its own
+// description. if/then reports the if it matched.
+function describeSchemaErrors(errors: ErrorObject[]): string[] {
+    const anyOfs = errors.filter((error) => error.keyword == "anyOf");
+    const isAlternative = (error: ErrorObject) =>
+        anyOfs.some(
+            (anyOf) =>
+                anyOf != error &&
+                (error.schemaPath.startsWith(`${anyOf.schemaPath}/`) ||
+                    (error.schemaPath.startsWith("#/definitions/") &&
+                        `${error.instancePath}/`.startsWith(
+                            `${anyOf.instancePath}/`
+                        )))
+        );
+
+    return errors
+        .filter((error) => error.keyword != "if" && !isAlternative(error))
+        .map(describeSchemaError)
+        .filter((message, i, messages) => messages.indexOf(message) == i);
+}
+
+// Checks params read from a JSON or YAML document, before anything is asked
+// of an RPC
+export function validateAddLiquidityParams(
+    params: unknown,
+    source = "The add-liq params"
+): AddLiquidityParams {
+    const { version, strategy } =
+        (params as Partial<AddLiquidityParams> | undefined) ?? {};
+    if (version != undefined && version != ADD_LIQ_PARAMS_VERSION)
+        throw new InvalidInputError(
+            `${source} are version ${version}, but only version ${ADD_LIQ_PARAMS_VERSION} is supported.`
+        );
+
+    // Strategies are looked up in any case, and the schema's rules for some
+    // of them are written in lower case
+    if (typeof strategy == "string")
+        params = { ...(params as object), strategy: strategy.toLowerCase() };
+
+    if (!validateSchema(params))
+        throw new InvalidInputError(
+            `${source} are invalid:\n${describeSchemaErrors(
+                validateSchema.errors ?? []
+            )
+                .map((message) => `  - ${message}`)
+                .join("\n")}`
+        );
+
+    return params;
+}
+
+export function parseAddLiquidityParams(
+    contents: string,
+    source?: string
+): AddLiquidityParams {
+    // YAML is a superset of JSON, so both are read the same way
+    let params: unknown;
+    try {
+        params = parse(contents);
+    } catch (error) {
+        throw new InvalidInputError(
+            `${source ?? "The add-liq params"} are not valid JSON or YAML: ${
+                (error as Error).message
+            }`
+        );
+    }
+
+    return validateAddLiquidityParams(params, source);
+}
+
+async function readStdin(): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) chunks.push(Buffer.from(chunk));
+    return Buffer.concat(chunks).toString("utf8");
+}
+
+// Reads params from a JSON or YAML file, or from stdin when the path is -
+export async function readAddLiquidityParams(
+    path: string
+): Promise<AddLiquidityParams> {
+    if (path == "-")
+        return parseAddLiquidityParams(
+            await readStdin(),
+            "The add-liq params from stdin"
+        );
+
+    return parseAddLiquidityParams(
+        await readFile(path, "utf8"),
+        `The add-liq params of ${path}`
+    );
+}
+
+// The tokens of a pool besides any it holds of itself, as the params of a
+// strategy list them
+export async function detectPoolTokens(
+    context: Context,
+    strategy: string,
+    lpAddress: string
+): Promise<PoolToken[]> {
+    const { fallbackProvider: provider, chainId, deployment } = context;
+    strategy = strategy.toLowerCase();
+
+    let tokens: string[];
+    if (strategy == "balancer") {
+        const balancer = new Balancer(
+            constants.AddressZero,
+            lpAddress,
+            [],
+            [],
+            0.01,
+            "0",
+            provider,
+            chainId,
+            deployment
+        );
+        [tokens] = await balancer.getPoolTokens();
+        tokens = tokens.filter(
+            (token) =>
+                token.toLowerCase() !=
+                balancer.getLpTokenAddress().toLowerCase()
+        );
+    } else if (strategy == "curve") {
+        tokens = await new Curve(
+            lpAddress,
+            0.01,
+            "0",
+            provider,
+            chainId,
+            deployment
+        ).getCoins();
+    } else {
+        // Uniswap V2 pairs and V3 pools both expose their two tokens this way
+        const pool = new Contract(
+            validateAddress("pool", lpAddress),
+            UniswapV2ABI,
+            provider
+        );
+        tokens = await multicall<string[]>(provider, [
+            { contract: pool, method: "token0" },
+            { contract: pool, method: "token1" },
+        ]);
+    }
+
+    return await context.getTokenMetadata(tokens);
+}
@@ -0,0 +1,169 @@
+import {
+    BigNumber,
+    BigNumberish,
+    constants,
+    Contract,
+    providers,
+} from "ethers";
+import { formatUnits } from "ethers/lib/utils";
+
+import {
+    PoolMismatchError,
+    PriceDeviationError,
+    PriceGuardError,
+} from "./errors";
+import { UniswapV2ABI } from "./metadata/abis";
+import { getTokenMetadata } from "./tokens";
+import { OhmPrice } from "./types";
+import { OHM_DECIMALS } from "./units";
+
+type BaseProvider = providers.BaseProvider;
+
+export const PRICE_DECIMALS = 18;
+
+// Roughly 20 minutes of mainnet blocks, within the last 128 blocks whose
+// state nodes keep when they aren't archive nodes
+export const DEFAULT_TWAP_BLOCKS = 100;
+
+// Uniswap V2 accumulates prices as UQ112x112 fixed point numbers
+const Q112 = BigNumber.from(2).pow(112);
+
+export async function toOhmPrice(
+    provider: BaseProvider,
+    quoteToken: string,
+    quoteAmount: BigNumberish,
+    ohmAmount: BigNumberish
+): Promise<OhmPrice> {
+    if (BigNumber.from(ohmAmount).isZero())
+        throw new Error("There is no OHM liquidity to take a price from.");
+
+    const [{ decimals: quoteDecimals }] = await getTokenMetadata(provider, [
+        quoteToken,
+    ]);
+
+    return {
+        quoteToken,
+        price: BigNumber.from(quoteAmount)
+            .mul(BigNumber.from(10).pow(OHM_DECIMALS + PRICE_DECIMALS))
+            .div(
+                BigNumber.from(ohmAmount).mul(
+                    BigNumber.from(10).pow(quoteDecimals)
+                )
+            ),
+    };
+}
+
+async function getCumulativePrice(
+    pair: Contract,
+    ohmIsToken0: boolean,
+    blockTag: number
+): Promise<[BigNumber, number]> {
+    const block = await pair.provider.getBlock(blockTag);
+    const [reserve0, reserve1, blockTimestampLast] = await pair.getReserves({
+        blockTag,
+    });
+    const cumulativePrice: BigNumber = ohmIsToken0
+        ? await pair.price0CumulativeLast({ blockTag })
+        : await pair.price1CumulativeLast({ blockTag });
+
+    // The pair only accumulates on its first trade of a block, so add the
+    // price held since then, like UniswapV2OracleLibrary does
+    const spotPrice: BigNumber = ohmIsToken0
+        ? reserve1.mul(Q112).div(reserve0)
+        : reserve0.mul(Q112).div(reserve1);
+
+    return [
+        cumulativePrice.add(
+            spotPrice.mul(block.timestamp - blockTimestampLast)
+        ),
+        block.timestamp,
+    ];
+}
+
+export async function getUniswapV2Twap(
+    provider: BaseProvider,
+    pairAddress: string,
+    ohmAddress: string,
+    blocks = DEFAULT_TWAP_BLOCKS
+): Promise<OhmPrice> {
+    const pair = new Contract(pairAddress, UniswapV2ABI, provider);
+    const token0: string = await pair.token0();
+    const token1: string = await pair.token1();
+
+    const ohmIsToken0 = token0.toLowerCase() == ohmAddress.toLowerCase();
+    if (!ohmIsToken0 && token1.toLowerCase() != ohmAddress.toLowerCase())
+        throw new PoolMismatchError(
+            pairAddress,
+            `Uniswap V2 pair ${pairAddress} doesn't hold OHM, so it can't give an OHM TWAP.`
+        );
+
+    const latestBlock = await provider.getBlockNumber();
+    let startPrice: BigNumber;
+    let startTimestamp: number;
+    try {
+        [startPrice, startTimestamp] = await getCumulativePrice(
+            pair,
+            ohmIsToken0,
+            latestBlock - blocks
+        );
+    } catch (error) {
+        throw new PriceGuardError(
+            `The state of ${pairAddress} ${blocks} blocks ago can't be read for its TWAP: ${
+                (error as Error).message
+            }. Windows beyond the last 128 blocks need an archive node.`
+        );
+    }
+    const [endPrice, endTimestamp] = await getCumulativePrice(
+        pair,
+        ohmIsToken0,
+        latestBlock
+    );
+    if (endTimestamp == startTimestamp)
+        throw new PriceGuardError(
+            "The TWAP window must span at least one second."
+        );
+
+    // Cumulative prices are allowed to overflow on chain
+    let priceChange = endPrice.sub(startPrice);
+    if (priceChange.isNegative())
+        priceChange = priceChange.add(constants.MaxUint256).add(1);
+
+    return await toOhmPrice(
+        provider,
+        ohmIsToken0 ? token1 : token0,
+        priceChange.div(endTimestamp - startTimestamp),
+        Q112
+    );
+}
+
+export function checkPriceDeviation(
+    spot: OhmPrice,
+    reference: OhmPrice,
+    maxDeviationBps: number
+): void {
+    if (spot.quoteToken.toLowerCase() != reference.quoteToken.toLowerCase())
+        throw new PriceGuardError(
+            `The pool prices OHM in ${spot.quoteToken}, but the reference price is in ${reference.quoteToken}.`
+        );
+    if (reference.price.isZero())
+        throw new PriceGuardError("The reference OHM price is zero.");
+
+    const deviationBps = spot.price
+        .sub(reference.price)
+        .abs()
+        .mul(10000)
+        .div(reference.price);
+
+    if (deviationBps.gt(maxDeviationBps))
+        throw new PriceDeviationError(
+            deviationBps.toString(),
+            maxDeviationBps,
+            `The pool's OHM price of ${formatUnits(
+                spot.price,
+                PRICE_DECIMALS
+            )} deviates ${deviationBps} bps from the reference price of ${formatUnits(
+                reference.price,
+                PRICE_DECIMALS
+            )}, more than the allowed ${maxDeviationBps} bps.`
+        );
+}
@@ -0,0 +1,48 @@
+import { BigNumber, UnsignedTransaction, utils } from "ethers";
+
+import { decodeCall, parseCall } from "./decode";
+import { SafeBatch, SafeBatchOptions, SafeBatchTransaction } from "./types";
+
+function toSafeBatchTransaction(tx: UnsignedTransaction): SafeBatchTransaction {
+    if (!tx.to || !tx.data)
+        throw new Error("Only populated contract calls can be exported.");
+
+    const parsed = parseCall(tx.data);
+
+    return {
+        to: tx.to,
+        value: BigNumber.from(tx.value ?? 0).toString(),
+        data: utils.hexlify(tx.data),
+        contractMethod: {
+            name: parsed.name,
+            inputs: parsed.functionFragment.inputs.map((input) => ({
+                name: input.name,
+                type: input.type,
+                internalType: input.type,
+            })),
+            payable: parsed.functionFragment.payable,
+        },
+        contractInputsValues: decodeCall(tx.data).args,
+    };
+}
+
+export function getSafeBatch(
+    txs: UnsignedTransaction[],
+    options: SafeBatchOptions
+): SafeBatch {
+    const transactions = txs.map(toSafeBatchTransaction);
+
+    return {
+        version: "1.0",
+        chainId: options.chainId.toString(),
+        createdAt: Date.now(),
+        meta: {
+            name: options.name ?? "Incur Debt Transactions Batch",
+            description:
+                options.description ??
+                transactions.map((tx) => tx.contractMethod.name).join(", "),
+            createdFromSafeAddress: options.safeAddress ?? "",
+        },
+        transactions,
+    };
+}
@@ -0,0 +1,70 @@
+import { providers, UnsignedTransaction, utils } from "ethers";
+
+import { SimulationResult } from "./types";
+
+type BaseProvider = providers.BaseProvider;
+
+// Selectors of the builtin Error(string) and Panic(uint256) reverts
+const ERROR_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+function getRevertData(error: unknown): string | undefined {
+    let current = error as { data?: unknown; error?: unknown } | undefined;
+
+    // Depending on the node, the revert data is nested a few errors deep
+    while (current) {
+        if (typeof current.data == "string" && utils.isHexString(current.data))
+            return current.data;
+        if (
+            typeof current.data == "object" &&
+            current.data &&
+            typeof (current.data as { data?: unknown }).data == "string"
+        )
+            return (current.data as { data: string }).data;
+        current = current.error as typeof current;
+    }
+}
+
+export function decodeRevertReason(error: unknown): string {
+    const data = getRevertData(error);
+    if (!data || data == "0x")
+        return (error as Error).message ?? "Reverted without a reason";
+
+    const selector = utils.hexDataSlice(data, 0, 4);
+    const payload = utils.hexDataSlice(data, 4);
+
+    if (selector == ERROR_SELECTOR)
+        return utils.defaultAbiCoder.decode(["string"], payload)[0];
+    if (selector == PANIC_SELECTOR)
+        return `Panic(${utils.defaultAbiCoder
+            .decode(["uint256"], payload)[0]
+            .toHexString()})`;
+
+    return `Reverted with custom error ${data}`;
+}
+
+export async function simulateTransaction(
+    provider: BaseProvider,
+    contractInterface: utils.Interface,
+    tx: UnsignedTransaction,
+    from: string
+): Promise<SimulationResult> {
+    const data = utils.hexlify(tx.data ?? "0x");
+
+    try {
+        const result = await provider.call({ to: tx.to, data, from });
+
+        const fragment = contractInterface.parseTransaction({ data });
+        const decoded = contractInterface.decodeFunctionResult(
+            fragment.functionFragment,
+            result
+        );
+
+        return {
+            success: true,
+            returnValue: decoded.length ? decoded[0].toString() : undefined,
+        };
+    } catch (error) {
+        return { success: false, revertReason: decodeRevertReason(error) };
+    }
+}
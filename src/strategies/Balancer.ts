@@ -1,21 +1,52 @@
-import { StrategyInterface } from "../types";
 import { BigNumber, Contract, providers } from "ethers";
-import { defaultAbiCoder as abiCoder } from "ethers/lib/utils";
-import { BalancerHelpersABI, BalancerVaultABI } from "../metadata/abis";
 import {
-    BalancerHelperAddress,
-    BalancerVaultAddress,
-    IncurDebtAddress,
-    OhmAddress,
-} from "../metadata/addresses";
+    defaultAbiCoder as abiCoder,
+    formatEther,
+    hexDataSlice,
+} from "ethers/lib/utils";
+
+import { getDeployment } from "../deployments";
+import { EmptyPoolError, PoolMismatchError } from "../errors";
+import { mulDiv, slippageFactor, WAD, wadDiv, wadMul } from "../math";
+import {
+    BalancerHelpersABI,
+    BalancerPoolABI,
+    BalancerVaultABI,
+} from "../metadata/abis";
+import { toOhmPrice } from "../priceGuard";
+import {
+    BalancerPoolType,
+    Deployment,
+    OhmPrice,
+    StrategyInterface,
+    StrategyParams,
+} from "../types";
+import { OHM_DECIMALS } from "../units";
+import {
+    validateAddress,
+    validateAmount,
+    validatePoolId,
+    validateTokenAmounts,
+} from "../validation";
+
+type BaseProvider = providers.BaseProvider;
 
-type JsonRpcProvider = providers.JsonRpcProvider;
+async function succeeds(call: () => Promise<unknown>): Promise<boolean> {
+    try {
+        await call();
+        return true;
+    } catch {
+        return false;
+    }
+}
 
 export class Balancer implements StrategyInterface {
     static abi = BalancerVaultABI;
 
     private incurDebtAddress: string;
 
+    private provider: BaseProvider;
+
     private msgSender: string;
 
     private vault: Contract;
@@ -24,94 +55,336 @@ export class Balancer implements StrategyInterface {
 
     private pool: string;
 
-    private assets: string[];
+    private poolContract: Contract;
+
+    private poolType?: BalancerPoolType;
+
+    private ohmAddress: string;
+
+    private otherTokens: string[];
 
-    private assetAmounts: string[];
+    private otherTokenAmounts: string[];
 
-    private acceptableSlippage: number;
+    private slippage: number;
+
+    private acceptableSlippage: BigNumber;
 
     private ohmToBorrow: string;
 
+    private warnings: string[] = [];
+
     constructor(
         sender: string,
         poolId: string,
         tokens: string[],
         tokenAmounts: string[],
-        slippage: number = 0.01,
+        slippage = 0.01,
         ohmAmount: string,
-        provider: JsonRpcProvider,
-        chainId: number
+        provider: BaseProvider,
+        chainId: number,
+        deployment: Deployment = getDeployment(chainId)
     ) {
-        this.incurDebtAddress = IncurDebtAddress(chainId)!;
+        this.incurDebtAddress = deployment.incurDebt;
+
+        this.msgSender = validateAddress("sender", sender);
 
-        this.msgSender = sender;
+        this.provider = provider;
 
-        this.vault = new Contract(BalancerVaultAddress, Balancer.abi, provider);
+        this.vault = new Contract(
+            deployment.balancerVault,
+            Balancer.abi,
+            provider
+        );
 
         this.balancerHelpers = new Contract(
-            BalancerHelperAddress,
+            deployment.balancerHelper,
             BalancerHelpersABI,
             provider
         );
 
-        this.pool = poolId;
+        this.pool = validatePoolId(poolId);
 
-        this.ohmToBorrow = ohmAmount;
+        this.poolContract = new Contract(
+            this.getLpTokenAddress(),
+            BalancerPoolABI,
+            provider
+        );
 
-        tokens.push(OhmAddress(chainId)!);
-        tokenAmounts.push(this.ohmToBorrow);
-        this.assetAmounts = tokenAmounts.sort((a, b) => {
-            const indexOfA = tokenAmounts.indexOf(a);
-            const indexOfB = tokenAmounts.indexOf(b);
-            if (BigNumber.from(tokens[indexOfA]).gt(tokens[indexOfB])) return 1;
-            if (BigNumber.from(tokens[indexOfA]).lt(tokens[indexOfB]))
-                return -1;
-            return 0;
-        });
+        this.ohmAddress = deployment.ohm;
 
-        this.assets = tokens.sort((a, b) => {
-            if (BigNumber.from(a).gt(b)) return 1;
-            if (BigNumber.from(a).lt(b)) return -1;
-            return 0;
-        });
+        this.ohmToBorrow = validateAmount("OHM amount", ohmAmount);
+
+        [this.otherTokens, this.otherTokenAmounts] = validateTokenAmounts(
+            tokens,
+            tokenAmounts
+        );
+
+        this.slippage = slippage;
 
-        this.acceptableSlippage = (1 - slippage) * 1000;
+        this.acceptableSlippage = slippageFactor(slippage);
     }
 
-    async getPoolTokens(): Promise<string[]> {
-        if (!this.vault || !this.pool)
-            throw new Error("Vault and liquidity pool not initialized");
+    static create(params: StrategyParams): Balancer {
+        return new Balancer(
+            params.sender,
+            params.lpAddress,
+            params.otherTokens,
+            params.otherTokenAmounts,
+            params.slippage,
+            params.ohmAmount,
+            params.provider,
+            params.chainId,
+            params.deployment
+        );
+    }
 
-        const poolTokensResults = await this.vault.getPoolTokens(this.pool);
+    async getPoolTokens(): Promise<[string[], BigNumber[]]> {
+        const [tokens, balances] = await this.vault.getPoolTokens(this.pool);
 
-        return poolTokensResults[0].toString();
+        return [tokens, balances];
+    }
+
+    async getPoolType(): Promise<BalancerPoolType> {
+        if (this.poolType) return this.poolType;
+
+        // Only composable stable pools hold their own BPT, and only weighted
+        // pools have weights
+        if (await succeeds(() => this.poolContract.getBptIndex()))
+            this.poolType = "composable-stable";
+        else if (await succeeds(() => this.poolContract.getNormalizedWeights()))
+            this.poolType = "weighted";
+        else if (
+            await succeeds(() => this.poolContract.getAmplificationParameter())
+        )
+            this.poolType = "stable";
+        else
+            throw new PoolMismatchError(
+                this.pool,
+                `Balancer pool ${this.pool} is not a weighted or stable pool.`
+            );
+
+        return this.poolType;
+    }
+
+    async getBptIndex(): Promise<number> {
+        if ((await this.getPoolType()) != "composable-stable") return -1;
+        return (await this.poolContract.getBptIndex()).toNumber();
+    }
+
+    async getBptSupply(): Promise<BigNumber> {
+        // Composable stable and newer weighted pools have BPT that isn't in
+        // circulation counted in their totalSupply
+        for (const supplyFunction of ["getActualSupply", "getVirtualSupply"]) {
+            try {
+                return await this.poolContract[supplyFunction]();
+            } catch {
+                continue;
+            }
+        }
+
+        return await this.poolContract.totalSupply();
     }
 
     async verifyOtherTokens(): Promise<boolean> {
-        if (!this.vault || !this.pool)
-            throw new Error("Vault and liquidity pool not initialized");
+        const [poolTokens] = await this.getPoolTokens();
+        const lowerCasePoolTokens = poolTokens.map((token) =>
+            token.toLowerCase()
+        );
+
+        return this.otherTokens.every(
+            (token) =>
+                token.toLowerCase() != this.ohmAddress.toLowerCase() &&
+                lowerCasePoolTokens.includes(token.toLowerCase())
+        );
+    }
 
-        const poolTokens = await this.getPoolTokens();
+    async getJoinAmounts(): Promise<string[]> {
+        const [poolTokens, balances] = await this.getPoolTokens();
+        const bptIndex = await this.getBptIndex();
 
-        for (let i = 0; i < this.assets.length; i++) {
-            if (!poolTokens.includes(this.assetAmounts[i])) return false;
+        const ohmIndex = poolTokens.findIndex(
+            (token) => token.toLowerCase() == this.ohmAddress.toLowerCase()
+        );
+        if (ohmIndex == -1)
+            throw new PoolMismatchError(
+                this.pool,
+                `OHM is not one of the tokens of Balancer pool ${this.pool}.`
+            );
+
+        if (!this.otherTokenAmounts.length) {
+            if (balances[ohmIndex].isZero())
+                throw new EmptyPoolError(
+                    `Balancer pool ${this.pool} holds no OHM.`
+                );
+
+            // Joining in proportion to the pool's balances doesn't move its
+            // prices, whatever its weights
+            return balances.map((balance, i) => {
+                if (i == bptIndex) return "0";
+                if (i == ohmIndex) return this.ohmToBorrow;
+                return mulDiv(
+                    this.ohmToBorrow,
+                    balance,
+                    balances[ohmIndex]
+                ).toString();
+            });
         }
 
-        return true;
+        if (!(await this.verifyOtherTokens()))
+            throw new PoolMismatchError(
+                this.pool,
+                `The other tokens given, ${this.otherTokens.join(
+                    ", "
+                )}, must be tokens of Balancer pool ${this.pool} besides OHM.`
+            );
+
+        return poolTokens.map((token, i) => {
+            if (i == ohmIndex) return this.ohmToBorrow;
+
+            const otherIndex = this.otherTokens.findIndex(
+                (other) => other.toLowerCase() == token.toLowerCase()
+            );
+            return otherIndex == -1 ? "0" : this.otherTokenAmounts[otherIndex];
+        });
+    }
+
+    async getOhmSpotPrice(): Promise<OhmPrice> {
+        const [poolTokens] = await this.getPoolTokens();
+        const bptIndex = await this.getBptIndex();
+
+        const quoteToken =
+            this.otherTokens[0] ??
+            poolTokens.find(
+                (token, i) =>
+                    i != bptIndex &&
+                    token.toLowerCase() != this.ohmAddress.toLowerCase()
+            );
+
+        // The Vault quotes swaps the same way for every pool type
+        const oneOhm = BigNumber.from(10).pow(OHM_DECIMALS);
+        const deltas: BigNumber[] = await this.vault.callStatic.queryBatchSwap(
+            0,
+            [
+                {
+                    poolId: this.pool,
+                    assetInIndex: 0,
+                    assetOutIndex: 1,
+                    amount: oneOhm,
+                    userData: "0x",
+                },
+            ],
+            [this.ohmAddress, quoteToken],
+            {
+                sender: this.incurDebtAddress,
+                fromInternalBalance: false,
+                recipient: this.incurDebtAddress,
+                toInternalBalance: false,
+            }
+        );
+
+        // Tokens sent out of the Vault are negative deltas
+        return await toOhmPrice(
+            this.provider,
+            quoteToken,
+            deltas[1].mul(-1),
+            oneOhm
+        );
+    }
+
+    async getValueWeights(
+        balances: BigNumber[],
+        bptIndex: number
+    ): Promise<BigNumber[]> {
+        if ((await this.getPoolType()) == "weighted")
+            return await this.poolContract.getNormalizedWeights();
+
+        // Stable pools price their tokens close to one another once scaled
+        // to 18 decimals and by their rates, so each token's share of the
+        // scaled balances is its share of the pool's value
+        const scalingFactors: BigNumber[] =
+            await this.poolContract.getScalingFactors();
+        const scaledBalances = balances.map((balance, i) =>
+            i == bptIndex
+                ? BigNumber.from(0)
+                : wadMul(balance, scalingFactors[i])
+        );
+        const totalScaledBalance = scaledBalances.reduce(
+            (total, balance) => total.add(balance),
+            BigNumber.from(0)
+        );
+
+        return scaledBalances.map((balance) =>
+            wadDiv(balance, totalScaledBalance)
+        );
+    }
+
+    async getPriceImpact(
+        amounts: string[],
+        bptOut: BigNumber
+    ): Promise<number> {
+        const [, balances] = await this.getPoolTokens();
+        const bptIndex = await this.getBptIndex();
+        const supply = await this.getBptSupply();
+        const weights = await this.getValueWeights(balances, bptIndex);
+
+        // The BPT a join of the same value would mint if it didn't move the
+        // pool's prices
+        const bptZeroPriceImpact = amounts.reduce(
+            (total, amount, i) =>
+                i == bptIndex || balances[i].isZero()
+                    ? total
+                    : total.add(
+                          mulDiv(
+                              wadMul(supply, weights[i]),
+                              amount,
+                              balances[i]
+                          )
+                      ),
+            BigNumber.from(0)
+        );
+
+        if (bptZeroPriceImpact.isZero() || bptOut.gte(bptZeroPriceImpact))
+            return 0;
+
+        return parseFloat(
+            formatEther(WAD.sub(wadDiv(bptOut, bptZeroPriceImpact)))
+        );
+    }
+
+    async getOtherTokenAmounts(): Promise<[string[], string[]]> {
+        const [poolTokens] = await this.getPoolTokens();
+        const amounts = await this.getJoinAmounts();
+        const bptIndex = await this.getBptIndex();
+
+        const others = poolTokens
+            .map((token, i) => [token, amounts[i], i] as const)
+            .filter(
+                ([token, , i]) =>
+                    i != bptIndex &&
+                    token.toLowerCase() != this.ohmAddress.toLowerCase()
+            );
+
+        return [
+            others.map(([token]) => token),
+            others.map(([, amount]) => amount),
+        ];
     }
 
     async getAddLiquidityCalldata(): Promise<string> {
-        if (!this.verifyOtherTokens())
-            throw new Error("Passed tokens do not match the pool.");
+        const [poolTokens] = await this.getPoolTokens();
+        const amounts = await this.getJoinAmounts();
+        const bptIndex = await this.getBptIndex();
 
+        // Join kind 1 is EXACT_TOKENS_IN_FOR_BPT_OUT, whose amounts leave
+        // out the BPT held by composable stable pools
         const userData = abiCoder.encode(
             ["uint256", "uint256[]", "uint256"],
-            [1, this.assetAmounts, 0]
+            [1, amounts.filter((_, i) => i != bptIndex), 0]
         );
 
         const joinPoolRequest = {
-            assets: this.assets,
-            maxAmountsIn: this.assetAmounts,
+            assets: poolTokens,
+            maxAmountsIn: amounts,
             userData: userData,
             fromInternalBalance: false,
         };
@@ -124,15 +397,94 @@ export class Balancer implements StrategyInterface {
                 joinPoolRequest
             );
 
-        const minPoolTokensOut = expectedPoolTokensOut[0]
-            .mul(this.acceptableSlippage)
-            .div("1000");
+        if (this.otherTokenAmounts.length) {
+            const priceImpact = await this.getPriceImpact(
+                amounts,
+                expectedPoolTokensOut[0]
+            );
+            if (priceImpact > this.slippage)
+                this.warnings.push(
+                    `Joining Balancer pool ${
+                        this.pool
+                    } with these amounts has a price impact of ${(
+                        priceImpact * 100
+                    ).toFixed(2)}%, above the allowed slippage of ${
+                        this.slippage * 100
+                    }%.`
+                );
+        }
+
+        const minPoolTokensOut = wadMul(
+            expectedPoolTokensOut[0],
+            this.acceptableSlippage
+        );
 
         const encodedParams = abiCoder.encode(
             ["bytes32", "address[]", "uint256[]", "uint256"],
-            [this.pool, this.assets, this.assetAmounts, minPoolTokensOut]
+            [this.pool, poolTokens, amounts, minPoolTokensOut]
         );
 
         return encodedParams;
     }
+
+    async getRemoveLiquidityAmounts(
+        liquidity: string
+    ): Promise<[string[], string[]]> {
+        const [poolTokens] = await this.getPoolTokens();
+
+        // The proportional exit is EXACT_BPT_IN_FOR_ALL_TOKENS_OUT (2) on
+        // composable stable pools, and EXACT_BPT_IN_FOR_TOKENS_OUT (1) on
+        // the others
+        const exitKind =
+            (await this.getPoolType()) == "composable-stable" ? 2 : 1;
+        const userData = abiCoder.encode(
+            ["uint256", "uint256"],
+            [exitKind, liquidity]
+        );
+
+        const exitPoolRequest = {
+            assets: poolTokens,
+            minAmountsOut: poolTokens.map(() => "0"),
+            userData: userData,
+            toInternalBalance: false,
+        };
+
+        const expectedTokensOut =
+            await this.balancerHelpers.callStatic.queryExit(
+                this.pool,
+                this.incurDebtAddress,
+                this.msgSender,
+                exitPoolRequest
+            );
+
+        return [
+            poolTokens,
+            expectedTokensOut[1].map((amount: BigNumber) => amount.toString()),
+        ];
+    }
+
+    async getRemoveLiquidityCalldata(liquidity: string): Promise<string> {
+        const [poolTokens, expectedTokensOut] =
+            await this.getRemoveLiquidityAmounts(liquidity);
+
+        const minTokensOut = expectedTokensOut.map((amount) =>
+            wadMul(amount, this.acceptableSlippage).toString()
+        );
+
+        const encodedParams = abiCoder.encode(
+            ["bytes32", "address[]", "uint256[]", "uint256"],
+            [this.pool, poolTokens, minTokensOut, liquidity]
+        );
+
+        return encodedParams;
+    }
+
+    getLpTokenAddress(): string {
+        // The first 20 bytes of a Balancer pool id are the pool (BPT) address
+        return hexDataSlice(this.pool, 0, 20);
+    }
+
+    getWarnings(): string[] {
+        return this.warnings;
+    }
 }
@@ -1,216 +1,286 @@
-import { StrategyInterface } from "../types";
 import { BigNumber, Contract, providers } from "ethers";
 import { defaultAbiCoder as abiCoder } from "ethers/lib/utils";
-import { ERC20ABI, StableSwapABI } from "../metadata/abis";
-import { OhmAddress } from "../metadata/addresses";
 
-type JsonRpcProvider = providers.JsonRpcProvider;
+import { getDeployment } from "../deployments";
+import { EmptyPoolError, PoolMismatchError } from "../errors";
+import { mulDiv, slippageFactor, wadMul } from "../math";
+import {
+    CurveCalcTokenAmountABI,
+    CurveGetDyABI,
+    StableSwapABI,
+} from "../metadata/abis";
+import { multicall, tryMulticall } from "../multicall";
+import { toOhmPrice } from "../priceGuard";
+import {
+    Deployment,
+    OhmPrice,
+    StrategyInterface,
+    StrategyParams,
+} from "../types";
+import { OHM_DECIMALS } from "../units";
+import { validateAddress, validateAmount } from "../validation";
+
+type BaseProvider = providers.BaseProvider;
+
+// The most coins a Curve pool can hold
+const MAX_COINS = 8;
 
 export class Curve implements StrategyInterface {
     static abi = StableSwapABI;
 
     private liquidityPool: Contract;
 
-    private acceptableSlippage: number;
+    private acceptableSlippage: BigNumber;
 
     private ohmToBorrow: string;
 
-    private provider: JsonRpcProvider;
+    private provider: BaseProvider;
 
     private ohmAddress: string;
 
+    private coins?: string[];
+
     constructor(
         lpAddress: string,
-        slippage: number = 0.01,
+        slippage = 0.01,
         ohmAmount: string,
-        provider: JsonRpcProvider,
-        chainId: number
+        provider: BaseProvider,
+        chainId: number,
+        deployment: Deployment = getDeployment(chainId)
     ) {
         this.provider = provider;
 
-        this.liquidityPool = new Contract(lpAddress, Curve.abi, this.provider);
+        this.liquidityPool = new Contract(
+            validateAddress("pool", lpAddress),
+            Curve.abi,
+            this.provider
+        );
 
-        this.acceptableSlippage = (1 - slippage) * 1000;
+        this.acceptableSlippage = slippageFactor(slippage);
 
-        this.ohmToBorrow = ohmAmount;
+        this.ohmToBorrow = validateAmount("OHM amount", ohmAmount);
 
-        this.ohmAddress = OhmAddress(chainId)!;
+        this.ohmAddress = deployment.ohm;
     }
 
-    async getTokenA(): Promise<string> {
-        if (!this.liquidityPool)
-            throw new Error("Liquidity pool not initialized");
-        return this.liquidityPool.coins(0);
+    static create(params: StrategyParams): Curve {
+        return new Curve(
+            params.lpAddress,
+            params.slippage,
+            params.ohmAmount,
+            params.provider,
+            params.chainId,
+            params.deployment
+        );
     }
 
-    async getTokenADecimals(): Promise<string> {
-        if (!this.liquidityPool)
-            throw new Error("Liquidity pool not initialized");
-        const tokenAAddress = await this.liquidityPool.coins(0);
-        const tokenAContract = new Contract(
-            tokenAAddress,
-            ERC20ABI,
-            this.provider
+    async getCoins(): Promise<string[]> {
+        if (this.coins) return this.coins;
+
+        // Pools don't expose how many coins they hold, so probe coins(i)
+        // up to the most there can be, and keep them until one reverts
+        const probed = await tryMulticall(
+            this.provider,
+            [...Array(MAX_COINS).keys()].map((i) => ({
+                contract: this.liquidityPool,
+                method: "coins",
+                args: [i],
+            }))
         );
-        const tokenADecimals = await tokenAContract.decimals();
-        return tokenADecimals;
+        const end = probed.indexOf(undefined);
+        const coins = probed.slice(0, end == -1 ? undefined : end) as string[];
+
+        if (coins.length < 2)
+            throw new PoolMismatchError(
+                this.liquidityPool.address,
+                `${this.liquidityPool.address} is not a Curve pool with at least two coins.`
+            );
+
+        this.coins = coins;
+        return coins;
     }
 
-    async getTokenB(): Promise<string> {
-        if (!this.liquidityPool)
-            throw new Error("Liquidity pool not initialized");
-        return this.liquidityPool.coins(1);
+    async getBalances(): Promise<BigNumber[]> {
+        const coins = await this.getCoins();
+        return await multicall<BigNumber[]>(
+            this.provider,
+            coins.map((_, i) => ({
+                contract: this.liquidityPool,
+                method: "balances",
+                args: [i],
+            }))
+        );
     }
 
-    async getTokenBDecimals(): Promise<string> {
-        if (!this.liquidityPool)
-            throw new Error("Liquidity pool not initialized");
-        const tokenBAddress = await this.liquidityPool.coins(1);
-        const tokenBContract = new Contract(
-            tokenBAddress,
-            ERC20ABI,
+    async getLPTokenAmount(
+        amounts: string[],
+        isDeposit = true
+    ): Promise<string> {
+        const nCoins = amounts.length;
+        const pool = new Contract(
+            this.liquidityPool.address,
+            CurveCalcTokenAmountABI(nCoins),
             this.provider
         );
-        const tokenBDecimals = await tokenBContract.decimals();
-        return tokenBDecimals;
-    }
 
-    async getReserveRatio(): Promise<string> {
-        if (!this.liquidityPool)
-            throw new Error("Liquidity pool not initialized");
+        try {
+            return await pool[`calc_token_amount(uint256[${nCoins}],bool)`](
+                amounts,
+                isDeposit
+            );
+        } catch {
+            return await pool[`calc_token_amount(uint256[${nCoins}])`](amounts);
+        }
+    }
 
-        const reservesA = await this.liquidityPool.balances(0);
-        const tokenADecimals = await this.getTokenADecimals();
+    async getOhmIndex(): Promise<number> {
+        const coins = await this.getCoins();
+        const ohmIndex = coins.findIndex(
+            (coin) => coin.toLowerCase() == this.ohmAddress.toLowerCase()
+        );
+        if (ohmIndex == -1)
+            throw new PoolMismatchError(
+                this.liquidityPool.address,
+                `OHM is not one of the coins of Curve pool ${this.liquidityPool.address}.`
+            );
 
-        const reservesB = await this.liquidityPool.balances(1);
-        const tokenBDecimals = await this.getTokenBDecimals();
+        return ohmIndex;
+    }
 
-        const isPrecisionEqual =
-            BigNumber.from(tokenADecimals).eq(tokenBDecimals);
-        const isTokenAMorePrecise =
-            BigNumber.from(tokenADecimals).gt(tokenBDecimals);
+    async getOhmSpotPrice(): Promise<OhmPrice> {
+        const coins = await this.getCoins();
+        const ohmIndex = await this.getOhmIndex();
+        const quoteIndex = ohmIndex == 0 ? 1 : 0;
 
-        if (isPrecisionEqual)
-            return BigNumber.from(reservesA)
-                .mul("1000")
-                .div(reservesB)
-                .toString();
+        // Not every pool exposes its spot price, so quote a swap of one OHM
+        const oneOhm = BigNumber.from(10).pow(OHM_DECIMALS);
+        const pool = new Contract(
+            this.liquidityPool.address,
+            CurveGetDyABI,
+            this.provider
+        );
 
-        if (isTokenAMorePrecise) {
-            const decimalAdjustment = BigNumber.from("10").pow(
-                BigNumber.from(tokenADecimals).sub(tokenBDecimals)
+        let quoteAmount: BigNumber;
+        try {
+            quoteAmount = await pool["get_dy(int128,int128,uint256)"](
+                ohmIndex,
+                quoteIndex,
+                oneOhm
+            );
+        } catch {
+            quoteAmount = await pool["get_dy(uint256,uint256,uint256)"](
+                ohmIndex,
+                quoteIndex,
+                oneOhm
             );
-            const adjustedReservesB = decimalAdjustment.mul(reservesB);
-            return BigNumber.from(reservesA)
-                .mul("1000")
-                .div(adjustedReservesB)
-                .toString();
         }
 
-        const decimalAdjustment = BigNumber.from("10").pow(
-            BigNumber.from(tokenBDecimals).sub(tokenADecimals)
+        return await toOhmPrice(
+            this.provider,
+            coins[quoteIndex],
+            quoteAmount,
+            oneOhm
         );
-        const adjustedReservesA = decimalAdjustment.mul(reservesA);
-        return adjustedReservesA.mul("1000").div(reservesB).toString();
     }
 
-    async getLPTokenAmount(
-        amounts: string[],
-        isDeposit: boolean = true
-    ): Promise<string> {
-        if (amounts.length > 2)
-            throw new Error("Right now we only support two token Curve pools");
+    async getAddLiquidityAmounts(): Promise<string[]> {
+        const ohmIndex = await this.getOhmIndex();
+
+        const balances = await this.getBalances();
+        if (balances[ohmIndex].isZero())
+            throw new EmptyPoolError(
+                `Curve pool ${this.liquidityPool.address} holds no OHM.`
+            );
+
+        // Depositing in proportion to the pool's balances keeps it balanced
+        return balances.map((balance, i) =>
+            i == ohmIndex
+                ? this.ohmToBorrow
+                : mulDiv(
+                      this.ohmToBorrow,
+                      balance,
+                      balances[ohmIndex]
+                  ).toString()
+        );
+    }
+
+    async getOtherTokenAmounts(): Promise<[string[], string[]]> {
+        const coins = await this.getCoins();
+        const amounts = await this.getAddLiquidityAmounts();
+        const ohmIndex = await this.getOhmIndex();
 
-        const expectedLPTokenAmount =
-            await this.liquidityPool.calc_token_amount(amounts, isDeposit);
-        return expectedLPTokenAmount;
+        return [
+            coins.filter((_, i) => i != ohmIndex),
+            amounts.filter((_, i) => i != ohmIndex),
+        ];
     }
 
     async getAddLiquidityCalldata(): Promise<string> {
-        const tokenA = await this.getTokenA();
-        let tokenAAmount: string;
-
-        const tokenB = await this.getTokenB();
-        let tokenBAmount: string;
-
-        let otherToken: string;
-        let ohmDecimals: string;
-        let otherDecimals: string;
-
-        const reserveRatio = await this.getReserveRatio();
-
-        if (tokenA.toLowerCase() == this.ohmAddress.toLowerCase()) {
-            tokenAAmount = this.ohmToBorrow;
-
-            ohmDecimals = await this.getTokenADecimals();
-            otherToken = tokenB;
-            otherDecimals = await this.getTokenBDecimals();
-            const decimalDiff = BigNumber.from(otherDecimals).sub(ohmDecimals);
-
-            if (decimalDiff.gt("0")) {
-                tokenBAmount = BigNumber.from(tokenAAmount)
-                    .mul("1000")
-                    .mul(BigNumber.from("10").pow(decimalDiff))
-                    .div(reserveRatio)
-                    .toString();
-            } else if (decimalDiff.lt("0")) {
-                tokenBAmount = BigNumber.from(tokenAAmount)
-                    .mul("1000")
-                    .div(reserveRatio)
-                    .div(BigNumber.from("10").pow(decimalDiff.abs()))
-                    .toString();
-            } else {
-                tokenBAmount = BigNumber.from(tokenAAmount)
-                    .mul("1000")
-                    .div(reserveRatio)
-                    .toString();
-            }
-        } else {
-            tokenBAmount = this.ohmToBorrow;
-
-            ohmDecimals = await this.getTokenBDecimals();
-            otherToken = tokenB;
-            otherDecimals = await this.getTokenADecimals();
-            const decimalDiff = BigNumber.from(otherDecimals).sub(ohmDecimals);
-
-            if (decimalDiff.gt("0")) {
-                tokenAAmount = BigNumber.from(tokenBAmount)
-                    .mul(reserveRatio)
-                    .mul(BigNumber.from("10").pow(decimalDiff))
-                    .div("1000")
-                    .toString();
-            } else if (decimalDiff.lt("0")) {
-                tokenAAmount = BigNumber.from(tokenBAmount)
-                    .mul(reserveRatio)
-                    .div(BigNumber.from("10").pow(decimalDiff.abs()))
-                    .div("1000")
-                    .toString();
-            } else {
-                tokenAAmount = BigNumber.from(tokenBAmount)
-                    .mul(reserveRatio)
-                    .div("1000")
-                    .toString();
-            }
-        }
+        const coins = await this.getCoins();
+        const amounts = await this.getAddLiquidityAmounts();
+
+        const otherTokens = coins.filter(
+            (coin) => coin.toLowerCase() != this.ohmAddress.toLowerCase()
+        );
 
         const expectedLPTokenAmount = await this.getLPTokenAmount(
-            [tokenAAmount, tokenBAmount],
+            amounts,
             true
         );
-        const minLPTokenAmount = BigNumber.from(expectedLPTokenAmount)
-            .mul(this.acceptableSlippage)
-            .div("1000")
-            .toString();
+        const minLPTokenAmount = wadMul(
+            expectedLPTokenAmount,
+            this.acceptableSlippage
+        ).toString();
 
+        // A static array of one address encodes the same as an address, so
+        // two coin pools keep the original encoding
         const encodedParams = abiCoder.encode(
-            ["uint256[2]", "uint256", "address", "address"],
             [
-                [tokenAAmount, tokenBAmount],
-                minLPTokenAmount,
-                otherToken,
-                this.liquidityPool.address,
-            ]
+                `uint256[${coins.length}]`,
+                "uint256",
+                `address[${otherTokens.length}]`,
+                "address",
+            ],
+            [amounts, minLPTokenAmount, otherTokens, this.liquidityPool.address]
+        );
+        return encodedParams;
+    }
+
+    async getRemoveLiquidityAmounts(
+        liquidity: string
+    ): Promise<[string[], string[]]> {
+        const balances = await this.getBalances();
+
+        // Burning every LP token would withdraw the full balances, so this
+        // is the pool's LP supply as seen by the pool's invariant.
+        const totalLPTokenAmount = await this.getLPTokenAmount(
+            balances.map((balance) => balance.toString()),
+            false
+        );
+
+        return [
+            await this.getCoins(),
+            balances.map((reserves) =>
+                mulDiv(liquidity, reserves, totalLPTokenAmount).toString()
+            ),
+        ];
+    }
+
+    async getRemoveLiquidityCalldata(liquidity: string): Promise<string> {
+        const [, amounts] = await this.getRemoveLiquidityAmounts(liquidity);
+
+        const minAmounts = amounts.map((amount) =>
+            wadMul(amount, this.acceptableSlippage).toString()
+        );
+
+        const encodedParams = abiCoder.encode(
+            ["uint256", `uint256[${amounts.length}]`, "address"],
+            [liquidity, minAmounts, this.liquidityPool.address]
         );
         return encodedParams;
     }
+
+    getLpTokenAddress(): string {
+        return this.liquidityPool.address;
+    }
 }
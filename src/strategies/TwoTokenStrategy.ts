@@ -0,0 +1,148 @@
+import { BigNumber, BigNumberish, Contract, providers } from "ethers";
+
+import { getDeployment } from "../deployments";
+import { EmptyPoolError, PoolMismatchError } from "../errors";
+import { mulDiv, slippageFactor } from "../math";
+import { multicall } from "../multicall";
+import { getTokenMetadata } from "../tokens";
+import { Deployment, StrategyInterface } from "../types";
+import { validateAddress, validateAmount } from "../validation";
+
+type BaseProvider = providers.BaseProvider;
+
+// The amount of the other token worth ohmAmount, at the ratio of the reserves.
+// The reserves are in each token's own decimals, so their ratio scales the OHM
+// amount to the other token's decimals in the same multiplication, without
+// rounding through an intermediate ratio.
+export function getCounterAmount(
+    ohmAmount: BigNumberish,
+    ohmReserves: BigNumberish,
+    otherReserves: BigNumberish
+): BigNumber {
+    if (BigNumber.from(ohmReserves).isZero())
+        throw new EmptyPoolError("The pool holds no OHM.");
+
+    return mulDiv(ohmAmount, otherReserves, ohmReserves);
+}
+
+// Pools of OHM and one other token, exposing them as token0 and token1
+export abstract class TwoTokenStrategy implements StrategyInterface {
+    protected liquidityPool: Contract;
+
+    protected acceptableSlippage: BigNumber;
+
+    protected ohmToBorrow: string;
+
+    protected ohmAddress: string;
+
+    protected provider: BaseProvider;
+
+    private tokens?: [string, string];
+
+    constructor(
+        lpAddress: string,
+        abi: string[],
+        slippage: number,
+        ohmAmount: string,
+        provider: BaseProvider,
+        chainId: number,
+        deployment: Deployment = getDeployment(chainId)
+    ) {
+        this.provider = provider;
+
+        this.liquidityPool = new Contract(
+            validateAddress("pool", lpAddress),
+            abi,
+            this.provider
+        );
+
+        this.acceptableSlippage = slippageFactor(slippage);
+
+        this.ohmToBorrow = validateAmount("OHM amount", ohmAmount);
+
+        this.ohmAddress = deployment.ohm;
+    }
+
+    abstract getAddLiquidityCalldata(): Promise<string>;
+
+    abstract getRemoveLiquidityCalldata(liquidity: string): Promise<string>;
+
+    async getTokens(): Promise<[string, string]> {
+        if (!this.tokens)
+            this.tokens = await multicall<[string, string]>(this.provider, [
+                { contract: this.liquidityPool, method: "token0" },
+                { contract: this.liquidityPool, method: "token1" },
+            ]);
+
+        return this.tokens;
+    }
+
+    async getTokenA(): Promise<string> {
+        return (await this.getTokens())[0];
+    }
+
+    async getTokenB(): Promise<string> {
+        return (await this.getTokens())[1];
+    }
+
+    async getDecimals(): Promise<[number, number]> {
+        const [tokenA, tokenB] = await getTokenMetadata(
+            this.provider,
+            await this.getTokens()
+        );
+
+        return [tokenA.decimals, tokenB.decimals];
+    }
+
+    async getTokenADecimals(): Promise<number> {
+        return (await this.getDecimals())[0];
+    }
+
+    async getTokenBDecimals(): Promise<number> {
+        return (await this.getDecimals())[1];
+    }
+
+    async isOhmTokenA(): Promise<boolean> {
+        const [tokenA, tokenB] = await this.getTokens();
+
+        if (tokenA.toLowerCase() == this.ohmAddress.toLowerCase()) return true;
+        if (tokenB.toLowerCase() == this.ohmAddress.toLowerCase()) return false;
+
+        throw new PoolMismatchError(
+            this.liquidityPool.address,
+            `OHM is not one of the tokens of pool ${this.liquidityPool.address}.`
+        );
+    }
+
+    // The amounts of both tokens to deposit with the OHM borrowed, given
+    // the pool's reserves of each
+    async getPairAmounts(
+        reservesA: BigNumberish,
+        reservesB: BigNumberish
+    ): Promise<[BigNumber, BigNumber]> {
+        const ohmAmount = BigNumber.from(this.ohmToBorrow);
+
+        if (await this.isOhmTokenA())
+            return [
+                ohmAmount,
+                getCounterAmount(ohmAmount, reservesA, reservesB),
+            ];
+
+        return [getCounterAmount(ohmAmount, reservesB, reservesA), ohmAmount];
+    }
+
+    // The pair's other token and its amount, out of the amounts of both
+    protected async toOtherTokenAmounts([amountA, amountB]: [
+        BigNumber,
+        BigNumber
+    ]): Promise<[string[], string[]]> {
+        const [tokenA, tokenB] = await this.getTokens();
+
+        if (await this.isOhmTokenA()) return [[tokenB], [amountB.toString()]];
+        return [[tokenA], [amountA.toString()]];
+    }
+
+    getLpTokenAddress(): string {
+        return this.liquidityPool.address;
+    }
+}
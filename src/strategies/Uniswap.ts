@@ -1,210 +1,87 @@
-import { StrategyInterface } from "../types";
-import { BigNumber, Contract, providers } from "ethers";
+import { BigNumber, providers } from "ethers";
 import { defaultAbiCoder as abiCoder } from "ethers/lib/utils";
-import { ERC20ABI, UniswapV2ABI } from "../metadata/abis";
-import { OhmAddress } from "../metadata/addresses";
 
-type JsonRpcProvider = providers.JsonRpcProvider;
+import { mulDiv, wadMul } from "../math";
+import { UniswapV2ABI } from "../metadata/abis";
+import { multicall } from "../multicall";
+import { toOhmPrice } from "../priceGuard";
+import { Deployment, OhmPrice, StrategyParams } from "../types";
+import { TwoTokenStrategy } from "./TwoTokenStrategy";
 
-export class Uniswap implements StrategyInterface {
-    static abi = UniswapV2ABI;
-
-    private liquidityPool: Contract;
-
-    private acceptableSlippage: number;
-
-    private ohmToBorrow: string;
-
-    private ohmAddress: string;
+type BaseProvider = providers.BaseProvider;
 
-    private provider: JsonRpcProvider;
+export class Uniswap extends TwoTokenStrategy {
+    static abi = UniswapV2ABI;
 
     constructor(
         lpAddress: string,
-        slippage: number = 0.01,
+        slippage = 0.01,
         ohmAmount: string,
-        provider: JsonRpcProvider,
-        chainId: number
+        provider: BaseProvider,
+        chainId: number,
+        deployment?: Deployment
     ) {
-        this.provider = provider;
-
-        this.liquidityPool = new Contract(
+        super(
             lpAddress,
             Uniswap.abi,
-            this.provider
+            slippage,
+            ohmAmount,
+            provider,
+            chainId,
+            deployment
         );
-
-        this.acceptableSlippage = (1 - slippage) * 1000;
-
-        this.ohmToBorrow = ohmAmount;
-
-        this.ohmAddress = OhmAddress(chainId)!;
-    }
-
-    async getTokenA(): Promise<string> {
-        if (!this.liquidityPool)
-            throw new Error("Liquidity pool not initialized");
-        return this.liquidityPool.token0();
     }
 
-    async getTokenADecimals(): Promise<string> {
-        if (!this.liquidityPool)
-            throw new Error("Liquidity pool not initialized");
-
-        const tokenAAddress = await this.getTokenA();
-        const tokenAContract = new Contract(
-            tokenAAddress,
-            ERC20ABI,
-            this.provider
+    static create(params: StrategyParams): Uniswap {
+        return new Uniswap(
+            params.lpAddress,
+            params.slippage,
+            params.ohmAmount,
+            params.provider,
+            params.chainId,
+            params.deployment
         );
-        const tokenADecimals = await tokenAContract.decimals();
-
-        return tokenADecimals;
     }
 
-    async getTokenB(): Promise<string> {
-        if (!this.liquidityPool)
-            throw new Error("Liquidity pool not initialized");
-        return this.liquidityPool.token1();
-    }
+    async getOhmSpotPrice(): Promise<OhmPrice> {
+        const [reservesA, reservesB] = await this.liquidityPool.getReserves();
 
-    async getTokenBDecimals(): Promise<string> {
-        if (!this.liquidityPool)
-            throw new Error("Liquidity pool not initialized");
+        if (await this.isOhmTokenA())
+            return await toOhmPrice(
+                this.provider,
+                await this.getTokenB(),
+                reservesB,
+                reservesA
+            );
 
-        const tokenBAddress = await this.getTokenB();
-        const tokenBContract = new Contract(
-            tokenBAddress,
-            ERC20ABI,
-            this.provider
+        return await toOhmPrice(
+            this.provider,
+            await this.getTokenA(),
+            reservesA,
+            reservesB
         );
-        const tokenBDecimals = await tokenBContract.decimals();
-
-        return tokenBDecimals;
     }
 
-    async getReserveRatio(): Promise<string> {
-        if (!this.liquidityPool)
-            throw new Error("Liquidity pool not initialized");
+    async getOtherTokenAmounts(): Promise<[string[], string[]]> {
+        const [reservesA, reservesB] = await this.liquidityPool.getReserves();
 
-        const reservesInfo = await this.liquidityPool.getReserves();
-
-        const reservesA = reservesInfo[0];
-        const tokenADecimals = await this.getTokenADecimals();
-
-        const reservesB = reservesInfo[1];
-        const tokenBDecimals = await this.getTokenBDecimals();
-
-        const isPrecisionEqual =
-            BigNumber.from(tokenADecimals).eq(tokenBDecimals);
-        const isTokenAMorePrecise =
-            BigNumber.from(tokenADecimals).gt(tokenBDecimals);
-
-        if (isPrecisionEqual)
-            return BigNumber.from(reservesA)
-                .mul("1000")
-                .div(reservesB)
-                .toString();
-
-        if (isTokenAMorePrecise) {
-            const decimalAdjustment = BigNumber.from("10").pow(
-                BigNumber.from(tokenADecimals).sub(tokenBDecimals)
-            );
-            const adjustedReservesB = decimalAdjustment.mul(reservesB);
-            return BigNumber.from(reservesA)
-                .mul("1000")
-                .div(adjustedReservesB)
-                .toString();
-        }
-
-        const decimalAdjustment = BigNumber.from("10").pow(
-            BigNumber.from(tokenBDecimals).sub(tokenADecimals)
+        return await this.toOtherTokenAmounts(
+            await this.getPairAmounts(reservesA, reservesB)
         );
-        const adjustedReservesA = decimalAdjustment.mul(reservesA);
-        return adjustedReservesA.mul("1000").div(reservesB).toString();
     }
 
     async getAddLiquidityCalldata(): Promise<string> {
-        const tokenA = await this.getTokenA();
-        let tokenAAmount: string;
-        let minTokenAOut: string;
-
-        const tokenB = await this.getTokenB();
-        let tokenBAmount: string;
-        let minTokenBOut: string;
-
-        let ohmDecimals: string;
-        let otherDecimals: string;
-
-        const reserveRatio = await this.getReserveRatio();
-
-        if (tokenA.toLowerCase() == this.ohmAddress.toLowerCase()) {
-            tokenAAmount = this.ohmToBorrow;
-            minTokenAOut = BigNumber.from(tokenAAmount)
-                .mul(this.acceptableSlippage)
-                .div("1000")
-                .toString();
-            ohmDecimals = await this.getTokenADecimals();
-            otherDecimals = await this.getTokenBDecimals();
-            const decimalDiff = BigNumber.from(otherDecimals).sub(ohmDecimals);
-
-            if (decimalDiff.gt("0")) {
-                tokenBAmount = BigNumber.from(tokenAAmount)
-                    .mul("1000")
-                    .mul(BigNumber.from("10").pow(decimalDiff))
-                    .div(reserveRatio)
-                    .toString();
-            } else if (decimalDiff.lt("0")) {
-                tokenBAmount = BigNumber.from(tokenAAmount)
-                    .mul("1000")
-                    .div(reserveRatio)
-                    .div(BigNumber.from("10").pow(decimalDiff.abs()))
-                    .toString();
-            } else {
-                tokenBAmount = BigNumber.from(tokenAAmount)
-                    .mul("1000")
-                    .div(reserveRatio)
-                    .toString();
-            }
-
-            minTokenBOut = BigNumber.from(tokenBAmount)
-                .mul(this.acceptableSlippage)
-                .div("1000")
-                .toString();
-        } else {
-            tokenBAmount = this.ohmToBorrow;
-            minTokenBOut = BigNumber.from(tokenBAmount)
-                .mul(this.acceptableSlippage)
-                .div("1000")
-                .toString();
-            ohmDecimals = await this.getTokenBDecimals();
-            otherDecimals = await this.getTokenBDecimals();
-            const decimalDiff = BigNumber.from(otherDecimals).sub(ohmDecimals);
-
-            if (decimalDiff.gt("0")) {
-                tokenAAmount = BigNumber.from(tokenBAmount)
-                    .mul(reserveRatio)
-                    .mul(BigNumber.from("10").pow(decimalDiff))
-                    .div("1000")
-                    .toString();
-            } else if (decimalDiff.lt("0")) {
-                tokenAAmount = BigNumber.from(tokenBAmount)
-                    .mul(reserveRatio)
-                    .div(BigNumber.from("10").pow(decimalDiff.abs()))
-                    .div("1000")
-                    .toString();
-            } else {
-                tokenAAmount = BigNumber.from(tokenBAmount)
-                    .mul(reserveRatio)
-                    .div("1000")
-                    .toString();
-            }
-
-            minTokenAOut = BigNumber.from(tokenAAmount)
-                .mul(this.acceptableSlippage)
-                .div("1000")
-                .toString();
-        }
+        const [[tokenA, tokenB], [reservesA, reservesB]] = await Promise.all([
+            this.getTokens(),
+            this.liquidityPool.getReserves(),
+        ]);
+
+        const [tokenAAmount, tokenBAmount] = await this.getPairAmounts(
+            reservesA,
+            reservesB
+        );
+        const minTokenAOut = wadMul(tokenAAmount, this.acceptableSlippage);
+        const minTokenBOut = wadMul(tokenBAmount, this.acceptableSlippage);
 
         const encodedParams = abiCoder.encode(
             ["address", "address", "uint256", "uint256", "uint256", "uint256"],
@@ -219,4 +96,44 @@ export class Uniswap implements StrategyInterface {
         );
         return encodedParams;
     }
+
+    async getRemoveLiquidityAmounts(
+        liquidity: string
+    ): Promise<[string[], string[]]> {
+        const [tokens, [reservesInfo, totalSupply]] = await Promise.all([
+            this.getTokens(),
+            multicall<[BigNumber[], BigNumber]>(this.provider, [
+                { contract: this.liquidityPool, method: "getReserves" },
+                { contract: this.liquidityPool, method: "totalSupply" },
+            ]),
+        ]);
+
+        return [
+            tokens,
+            [
+                mulDiv(liquidity, reservesInfo[0], totalSupply).toString(),
+                mulDiv(liquidity, reservesInfo[1], totalSupply).toString(),
+            ],
+        ];
+    }
+
+    async getRemoveLiquidityCalldata(liquidity: string): Promise<string> {
+        const [[tokenA, tokenB], [tokenAAmount, tokenBAmount]] =
+            await this.getRemoveLiquidityAmounts(liquidity);
+
+        const minTokenAOut = wadMul(
+            tokenAAmount,
+            this.acceptableSlippage
+        ).toString();
+        const minTokenBOut = wadMul(
+            tokenBAmount,
+            this.acceptableSlippage
+        ).toString();
+
+        const encodedParams = abiCoder.encode(
+            ["address", "address", "uint256", "uint256", "uint256"],
+            [tokenA, tokenB, liquidity, minTokenAOut, minTokenBOut]
+        );
+        return encodedParams;
+    }
 }
@@ -0,0 +1,382 @@
+import { BigNumber, constants, providers } from "ethers";
+import { defaultAbiCoder as abiCoder } from "ethers/lib/utils";
+
+import { InvalidInputError, PoolMismatchError } from "../errors";
+import { wadMul } from "../math";
+import { UniswapV3PoolABI } from "../metadata/abis";
+import { multicall } from "../multicall";
+import { toOhmPrice } from "../priceGuard";
+import {
+    Deployment,
+    OhmPrice,
+    StrategyParams,
+    UniswapV3Options,
+} from "../types";
+import { TwoTokenStrategy } from "./TwoTokenStrategy";
+
+type BaseProvider = providers.BaseProvider;
+
+const MIN_TICK = -887272;
+const MAX_TICK = 887272;
+
+const Q96 = BigNumber.from(2).pow(96);
+
+// Multipliers for each bit of the absolute tick, taken from Uniswap's TickMath
+const TICK_RATIOS: [number, string][] = [
+    [0x2, "0xfff97272373d413259a46990580e213a"],
+    [0x4, "0xfff2e50f5f656932ef12357cf3c7fdcc"],
+    [0x8, "0xffe5caca7e10e4e61c3624eaa0941cd0"],
+    [0x10, "0xffcb9843d60f6159c9db58835c926644"],
+    [0x20, "0xff973b41fa98c081472e6896dfb254c0"],
+    [0x40, "0xff2ea16466c96a3843ec78b326b52861"],
+    [0x80, "0xfe5dee046a99a2a811c461f1969c3053"],
+    [0x100, "0xfcbe86c7900a88aedcffc83b479aa3a4"],
+    [0x200, "0xf987a7253ac413176f2b074cf7815e54"],
+    [0x400, "0xf3392b0822b70005940c7a398e4b70f3"],
+    [0x800, "0xe7159475a2c29b7443b29c7fa6e889d9"],
+    [0x1000, "0xd097f3bdfd2022b8845ad8f792aa5825"],
+    [0x2000, "0xa9f746462d870fdf8a65dc1f90e061e5"],
+    [0x4000, "0x70d869a156d2a1b890bb3df62baf32f7"],
+    [0x8000, "0x31be135f97d08fd981231505542fcfa6"],
+    [0x10000, "0x9aa508b5b7a84e1c677de54f3e99bc9"],
+    [0x20000, "0x5d6af8dedb81196699c329225ee604"],
+    [0x40000, "0x2216e584f5fa1ea926041bedfe98"],
+    [0x80000, "0x48a170391f7dc42444e8fa2"],
+];
+
+export function getSqrtRatioAtTick(tick: number): BigNumber {
+    if (tick < MIN_TICK || tick > MAX_TICK)
+        throw new Error("Tick out of range");
+
+    const absTick = Math.abs(tick);
+
+    let ratio = BigNumber.from(
+        absTick & 0x1
+            ? "0xfffcb933bd6fad37aa2d162d1a594001"
+            : "0x100000000000000000000000000000000"
+    );
+    for (const [bit, multiplier] of TICK_RATIOS)
+        if (absTick & bit) ratio = ratio.mul(multiplier).shr(128);
+
+    if (tick > 0) ratio = constants.MaxUint256.div(ratio);
+
+    const remainder = ratio.mod(BigNumber.from(2).pow(32));
+    return ratio.shr(32).add(remainder.isZero() ? 0 : 1);
+}
+
+export class UniswapV3 extends TwoTokenStrategy {
+    static abi = UniswapV3PoolABI;
+
+    private options: UniswapV3Options;
+
+    constructor(
+        lpAddress: string,
+        options: UniswapV3Options,
+        slippage = 0.01,
+        ohmAmount: string,
+        provider: BaseProvider,
+        chainId: number,
+        deployment?: Deployment
+    ) {
+        super(
+            lpAddress,
+            UniswapV3.abi,
+            slippage,
+            ohmAmount,
+            provider,
+            chainId,
+            deployment
+        );
+
+        if (
+            options.priceBand == undefined &&
+            (options.tickLower == undefined || options.tickUpper == undefined)
+        )
+            throw new InvalidInputError(
+                "Either a tick range or a price band must be given for Uniswap V3 positions."
+            );
+
+        this.options = options;
+    }
+
+    static create(params: StrategyParams): UniswapV3 {
+        const options = params.options as UniswapV3Options | undefined;
+        if (typeof options != "object" || options == null)
+            throw new InvalidInputError(
+                "A fee tier and a tick range or price band are required for Uniswap V3."
+            );
+
+        return new UniswapV3(
+            params.lpAddress,
+            options,
+            params.slippage,
+            params.ohmAmount,
+            params.provider,
+            params.chainId,
+            params.deployment
+        );
+    }
+
+    async getSqrtPriceAndTick(): Promise<[BigNumber, number]> {
+        // A pool without liquidity in range still has a price to add a
+        // position at, only an uninitialized one doesn't
+        const slot0 = await this.liquidityPool.slot0();
+        if (slot0.sqrtPriceX96.isZero())
+            throw new Error("Uniswap V3 pool has not been initialized");
+
+        return [slot0.sqrtPriceX96, slot0.tick];
+    }
+
+    async getOhmSpotPrice(): Promise<OhmPrice> {
+        const [sqrtPrice] = await this.getSqrtPriceAndTick();
+
+        // The squared sqrt price is token1 per token0, as a Q192 number
+        const price = sqrtPrice.mul(sqrtPrice);
+        const q192 = Q96.mul(Q96);
+
+        if (await this.isOhmTokenA())
+            return await toOhmPrice(
+                this.provider,
+                await this.getTokenB(),
+                price,
+                q192
+            );
+
+        return await toOhmPrice(
+            this.provider,
+            await this.getTokenA(),
+            q192,
+            price
+        );
+    }
+
+    async getTickRange(currentTick: number): Promise<[number, number]> {
+        const [fee, tickSpacing] = await multicall<[number, number]>(
+            this.provider,
+            [
+                { contract: this.liquidityPool, method: "fee" },
+                { contract: this.liquidityPool, method: "tickSpacing" },
+            ]
+        );
+        if (fee != this.options.fee)
+            throw new PoolMismatchError(
+                this.liquidityPool.address,
+                `Pool fee tier is ${fee}, not ${this.options.fee} as requested.`
+            );
+
+        let tickLower: number;
+        let tickUpper: number;
+
+        if (
+            this.options.tickLower != undefined &&
+            this.options.tickUpper != undefined
+        ) {
+            tickLower = this.options.tickLower;
+            tickUpper = this.options.tickUpper;
+        } else {
+            const band = this.options.priceBand ?? 0;
+            if (band <= 0 || band >= 1)
+                throw new InvalidInputError(
+                    "Price band must be between 0 and 1"
+                );
+
+            tickLower =
+                currentTick + Math.floor(Math.log(1 - band) / Math.log(1.0001));
+            tickUpper =
+                currentTick + Math.ceil(Math.log(1 + band) / Math.log(1.0001));
+        }
+
+        tickLower = Math.max(
+            Math.floor(tickLower / tickSpacing) * tickSpacing,
+            Math.ceil(MIN_TICK / tickSpacing) * tickSpacing
+        );
+        tickUpper = Math.min(
+            Math.ceil(tickUpper / tickSpacing) * tickSpacing,
+            Math.floor(MAX_TICK / tickSpacing) * tickSpacing
+        );
+
+        if (tickLower >= tickUpper)
+            throw new InvalidInputError(
+                "Lower tick must be below the upper tick"
+            );
+
+        return [tickLower, tickUpper];
+    }
+
+    // The tick range of the position and the amounts of both tokens it
+    // holds, given the OHM borrowed and the current price
+    async getPosition(): Promise<[number, number, BigNumber, BigNumber]> {
+        let tokenAAmount: BigNumber;
+        let tokenBAmount: BigNumber;
+
+        const [sqrtPrice, currentTick] = await this.getSqrtPriceAndTick();
+        const [tickLower, tickUpper] = await this.getTickRange(currentTick);
+
+        const sqrtPriceLower = getSqrtRatioAtTick(tickLower);
+        const sqrtPriceUpper = getSqrtRatioAtTick(tickUpper);
+
+        if (await this.isOhmTokenA()) {
+            tokenAAmount = BigNumber.from(this.ohmToBorrow);
+
+            if (sqrtPrice.lte(sqrtPriceLower)) {
+                tokenBAmount = BigNumber.from("0");
+            } else if (sqrtPrice.gte(sqrtPriceUpper)) {
+                throw new InvalidInputError(
+                    "Position range is below the current price, so it cannot hold OHM."
+                );
+            } else {
+                const liquidity = tokenAAmount
+                    .mul(sqrtPrice.mul(sqrtPriceUpper).div(Q96))
+                    .div(sqrtPriceUpper.sub(sqrtPrice));
+                tokenBAmount = liquidity
+                    .mul(sqrtPrice.sub(sqrtPriceLower))
+                    .div(Q96);
+            }
+        } else {
+            tokenBAmount = BigNumber.from(this.ohmToBorrow);
+
+            if (sqrtPrice.gte(sqrtPriceUpper)) {
+                tokenAAmount = BigNumber.from("0");
+            } else if (sqrtPrice.lte(sqrtPriceLower)) {
+                throw new InvalidInputError(
+                    "Position range is above the current price, so it cannot hold OHM."
+                );
+            } else {
+                const liquidity = tokenBAmount
+                    .mul(Q96)
+                    .div(sqrtPrice.sub(sqrtPriceLower));
+                tokenAAmount = liquidity
+                    .mul(Q96)
+                    .mul(sqrtPriceUpper.sub(sqrtPrice))
+                    .div(sqrtPriceUpper)
+                    .div(sqrtPrice);
+            }
+        }
+
+        return [tickLower, tickUpper, tokenAAmount, tokenBAmount];
+    }
+
+    async getOtherTokenAmounts(): Promise<[string[], string[]]> {
+        const [, , tokenAAmount, tokenBAmount] = await this.getPosition();
+
+        return await this.toOtherTokenAmounts([tokenAAmount, tokenBAmount]);
+    }
+
+    async getAddLiquidityCalldata(): Promise<string> {
+        const [tokenA, tokenB] = await this.getTokens();
+        const [tickLower, tickUpper, tokenAAmount, tokenBAmount] =
+            await this.getPosition();
+
+        const minTokenAOut = wadMul(tokenAAmount, this.acceptableSlippage);
+        const minTokenBOut = wadMul(tokenBAmount, this.acceptableSlippage);
+
+        const encodedParams = abiCoder.encode(
+            [
+                "address",
+                "address",
+                "uint24",
+                "int24",
+                "int24",
+                "uint256",
+                "uint256",
+                "uint256",
+                "uint256",
+            ],
+            [
+                tokenA,
+                tokenB,
+                this.options.fee,
+                tickLower,
+                tickUpper,
+                tokenAAmount,
+                tokenBAmount,
+                minTokenAOut,
+                minTokenBOut,
+            ]
+        );
+        return encodedParams;
+    }
+
+    // The tick range of a position and the amounts of both tokens its
+    // liquidity holds at the current price
+    async getLiquidityAmounts(
+        liquidity: string
+    ): Promise<[number, number, BigNumber, BigNumber]> {
+        if (
+            this.options.tickLower == undefined ||
+            this.options.tickUpper == undefined
+        )
+            throw new InvalidInputError(
+                "Removing Uniswap V3 liquidity requires the position's tick range."
+            );
+
+        const [sqrtPrice, currentTick] = await this.getSqrtPriceAndTick();
+        const [tickLower, tickUpper] = await this.getTickRange(currentTick);
+
+        const sqrtPriceLower = getSqrtRatioAtTick(tickLower);
+        const sqrtPriceUpper = getSqrtRatioAtTick(tickUpper);
+
+        // Clamp the current price into the position's range, outside of it
+        // the position is entirely made of one token
+        let sqrtPriceInRange = sqrtPrice;
+        if (sqrtPrice.lt(sqrtPriceLower)) sqrtPriceInRange = sqrtPriceLower;
+        if (sqrtPrice.gt(sqrtPriceUpper)) sqrtPriceInRange = sqrtPriceUpper;
+
+        const tokenAAmount = BigNumber.from(liquidity)
+            .mul(Q96)
+            .mul(sqrtPriceUpper.sub(sqrtPriceInRange))
+            .div(sqrtPriceUpper)
+            .div(sqrtPriceInRange);
+        const tokenBAmount = BigNumber.from(liquidity)
+            .mul(sqrtPriceInRange.sub(sqrtPriceLower))
+            .div(Q96);
+
+        return [tickLower, tickUpper, tokenAAmount, tokenBAmount];
+    }
+
+    async getRemoveLiquidityAmounts(
+        liquidity: string
+    ): Promise<[string[], string[]]> {
+        const [, , tokenAAmount, tokenBAmount] = await this.getLiquidityAmounts(
+            liquidity
+        );
+
+        return [
+            await this.getTokens(),
+            [tokenAAmount.toString(), tokenBAmount.toString()],
+        ];
+    }
+
+    async getRemoveLiquidityCalldata(liquidity: string): Promise<string> {
+        const [tokenA, tokenB] = await this.getTokens();
+        const [tickLower, tickUpper, tokenAAmount, tokenBAmount] =
+            await this.getLiquidityAmounts(liquidity);
+
+        const minTokenAOut = wadMul(tokenAAmount, this.acceptableSlippage);
+        const minTokenBOut = wadMul(tokenBAmount, this.acceptableSlippage);
+
+        const encodedParams = abiCoder.encode(
+            [
+                "address",
+                "address",
+                "uint24",
+                "int24",
+                "int24",
+                "uint128",
+                "uint256",
+                "uint256",
+            ],
+            [
+                tokenA,
+                tokenB,
+                this.options.fee,
+                tickLower,
+                tickUpper,
+                liquidity,
+                minTokenAOut,
+                minTokenBOut,
+            ]
+        );
+        return encodedParams;
+    }
+}
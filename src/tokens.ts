@@ -0,0 +1,63 @@
+import { BigNumber, Contract, providers, utils } from "ethers";
+
+import { ERC20ABI } from "./metadata/abis";
+import { multicall } from "./multicall";
+import { TokenMetadata } from "./types";
+
+type BaseProvider = providers.BaseProvider;
+
+// A token's symbol and decimals never change, so they are read once per
+// provider, and so once per Context. Pending reads are kept too, so that
+// tokens asked for at once are only read once.
+const metadataByProvider = new WeakMap<
+    BaseProvider,
+    Map<string, Promise<TokenMetadata>>
+>();
+
+// Reads the symbol and decimals of the tokens not read yet in one batch
+export async function getTokenMetadata(
+    provider: BaseProvider,
+    tokens: string[]
+): Promise<TokenMetadata[]> {
+    let known = metadataByProvider.get(provider);
+    if (!known) {
+        known = new Map();
+        metadataByProvider.set(provider, known);
+    }
+    const cache = known;
+
+    const missing = tokens
+        .map((token) => token.toLowerCase())
+        .filter((token, i, all) => all.indexOf(token) == i)
+        .filter((token) => !cache.has(token));
+
+    if (missing.length > 0) {
+        const results = multicall(
+            provider,
+            missing.flatMap((token) => {
+                const contract = new Contract(token, ERC20ABI, provider);
+                return [
+                    { contract, method: "symbol" },
+                    { contract, method: "decimals" },
+                ];
+            })
+        );
+
+        for (const [i, token] of missing.entries()) {
+            const metadata = results.then((values) => ({
+                address: utils.getAddress(token),
+                symbol: values[2 * i] as string,
+                decimals: BigNumber.from(values[2 * i + 1]).toNumber(),
+            }));
+            // A failed read is tried again the next time it is asked for
+            metadata.catch(() => cache.delete(token));
+            cache.set(token, metadata);
+        }
+    }
+
+    return await Promise.all(
+        tokens.map(
+            (token) => cache.get(token.toLowerCase()) as Promise<TokenMetadata>
+        )
+    );
+}
@@ -1,5 +1,31 @@
+import { BigNumber, providers, UnsignedTransaction } from "ethers";
+
 export interface StrategyInterface {
     getAddLiquidityCalldata(): Promise<string>;
+    getRemoveLiquidityCalldata(liquidity: string): Promise<string>;
+    getLpTokenAddress(): string;
+    getWarnings?(): string[];
+    getOhmSpotPrice?(): Promise<OhmPrice>;
+    // The other tokens deposited with the OHM borrowed, and their amounts
+    getOtherTokenAmounts?(): Promise<[string[], string[]]>;
+    // The tokens removing liquidity returns, OHM included, and the amounts
+    // expected of each before slippage
+    getRemoveLiquidityAmounts?(
+        liquidity: string
+    ): Promise<[string[], string[]]>;
+}
+
+// The price of one OHM in the quote token, with 18 decimals
+export interface OhmPrice {
+    quoteToken: string;
+    price: BigNumber;
+}
+
+export interface PriceGuardOptions {
+    maxDeviationBps: number;
+    referencePrice?: string;
+    twapPair?: string;
+    twapBlocks?: number;
 }
 
 export interface BorrowerData {
@@ -10,3 +36,328 @@ export interface BorrowerData {
     isNonLpBorrower: boolean;
     isLpBorrower: boolean;
 }
+
+export type BalancerPoolType = "weighted" | "stable" | "composable-stable";
+
+export interface UniswapV3Options {
+    fee: number;
+    tickLower?: number;
+    tickUpper?: number;
+    priceBand?: number;
+}
+
+// The addresses of IncurDebt and the contracts around it on a chain
+export interface Deployment {
+    incurDebt: string;
+    ohm: string;
+    gohm?: string;
+    // Strategy contract addresses, by strategy name
+    strategies: { [name: string]: string };
+    balancerVault: string;
+    balancerHelper: string;
+}
+
+// A deployment as registered or overridden, where any address may be left
+// out to keep the one underneath
+export interface DeploymentConfig extends Partial<Deployment> {
+    // The chain whose addresses a fork starts from
+    forkOf?: number;
+}
+
+// The params of the add-liq command, as read from a params file
+export interface AddLiquidityParams {
+    version?: number;
+    chainId: number;
+    rpcUrl: string | string[];
+    sender: string;
+    strategy: string;
+    lpAddress: string;
+    slippage?: number;
+    // Raw base units, or an amount with its token symbol
+    ohmAmount: string | number;
+    otherTokens?: string[];
+    otherTokenAmounts?: (string | number)[];
+    options?: unknown;
+    priceGuard?: PriceGuardOptions;
+    deployment?: DeploymentConfig;
+}
+
+export interface TokenMetadata {
+    address: string;
+    symbol: string;
+    decimals: number;
+}
+
+// The tokens of a pool, as detectPoolTokens reads them
+export type PoolToken = TokenMetadata;
+
+export interface ContextOptions {
+    // Addresses laid over the chain's deployment for this context only
+    deployment?: DeploymentConfig;
+    // How many of the RPCs must agree on a result, when several are given
+    quorum?: number;
+    // How long an RPC may take before the next one is asked too, in ms
+    stallTimeout?: number;
+    // How many times a rate limited request is retried, with backoff
+    retries?: number;
+    // The slot the backoff between retries grows from, in ms
+    retryInterval?: number;
+}
+
+export interface StrategyParams<T = unknown> {
+    sender: string;
+    lpAddress: string;
+    slippage: number;
+    ohmAmount: string;
+    otherTokens: string[];
+    otherTokenAmounts: string[];
+    options?: T;
+    provider: providers.BaseProvider;
+    chainId: number;
+    deployment: Deployment;
+}
+
+export type StrategyFactory<T = unknown> = (
+    params: StrategyParams<T>
+) => StrategyInterface;
+
+export interface RegisteredStrategy {
+    factory: StrategyFactory;
+    address: string;
+}
+
+export interface SignerOptions {
+    keystore?: string;
+    keystorePasswordEnv: string;
+    privateKeyEnv?: string;
+}
+
+export interface DecodedEvent {
+    address: string;
+    name: string;
+    args: { [key: string]: string };
+}
+
+export interface DecodedCall {
+    method: string;
+    signature: string;
+    args: { [key: string]: string };
+}
+
+export type LedgerEntryType =
+    | "deposit"
+    | "borrow"
+    | "lp-added"
+    | "lp-removed"
+    | "lp-withdrawn"
+    | "withdrawal"
+    | "repayment-gohm"
+    | "repayment-ohm";
+
+export interface LedgerEntry {
+    blockNumber: number;
+    timestamp: number;
+    transactionHash: string;
+    logIndex: number;
+    type: LedgerEntryType;
+    event: string;
+    // OHM borrowed or repaid, in base units
+    ohmAmount: string;
+    // gOHM deposited, withdrawn or repaid with, in base units
+    gohmAmount: string;
+    lpToken?: string;
+    lpAmount?: string;
+}
+
+export interface BorrowerHistory {
+    borrower: string;
+    chainId: number;
+    fromBlock: number;
+    toBlock: number;
+    entries: LedgerEntry[];
+}
+
+export interface HistoryOptions {
+    // A JSON file to save progress to after every chunk, and resume from
+    checkpointFile?: string;
+    // The most blocks to get the logs of at once
+    chunkSize?: number;
+}
+
+export interface DecodedStrategyParams {
+    strategy: string;
+    address: string;
+    pool?: string;
+    // Amounts deposited when adding liquidity
+    amounts: TokenAmount[];
+    // Least amounts deposited when adding liquidity, or received when
+    // removing it
+    minAmounts: TokenAmount[];
+    liquidity?: TokenAmount;
+    minLiquidity?: TokenAmount;
+}
+
+export interface DecodedIncurDebtTx extends DecodedCall {
+    to?: string;
+    strategyParams?: DecodedStrategyParams;
+    summary: string[];
+    warnings: string[];
+}
+
+export interface SafeBatchOptions {
+    chainId: number;
+    name?: string;
+    description?: string;
+    safeAddress?: string;
+}
+
+export interface SafeBatchTransaction {
+    to: string;
+    value: string;
+    data: string;
+    contractMethod: {
+        name: string;
+        inputs: { name: string; type: string; internalType: string }[];
+        payable: boolean;
+    };
+    contractInputsValues: { [key: string]: string };
+}
+
+export interface SafeBatch {
+    version: string;
+    chainId: string;
+    createdAt: number;
+    meta: {
+        name: string;
+        description: string;
+        createdFromSafeAddress: string;
+    };
+    transactions: SafeBatchTransaction[];
+}
+
+export interface PreflightResult {
+    txs: UnsignedTransaction[];
+    warnings: string[];
+}
+
+export interface SimulationResult {
+    success: boolean;
+    returnValue?: string;
+    revertReason?: string;
+}
+
+export interface SimulatedTransaction extends UnsignedTransaction {
+    simulation?: SimulationResult;
+    warnings?: string[];
+}
+
+export interface FormattedAmount {
+    amount: string;
+    formatted: string;
+}
+
+export interface TokenAmount extends FormattedAmount {
+    token: string;
+    symbol: string;
+}
+
+// Liquidity a borrower added through a strategy, by the pool it was added to
+export interface StrategyPosition<T = unknown> {
+    strategy: string;
+    lpAddress: string;
+    options?: T;
+}
+
+export interface LpPosition {
+    strategy: string;
+    // The LP token, which is the pool itself except on Balancer
+    lpAddress: string;
+    balance: string;
+    underlying: TokenAmount[];
+}
+
+export interface PositionReport {
+    borrower: string;
+    debt: FormattedAmount;
+    limit: FormattedAmount;
+    collateral: FormattedAmount;
+    borrowable: FormattedAmount;
+    debtToLimitPercent: string;
+    collateralUtilizationPercent: string;
+    globalDebtLimit: FormattedAmount;
+    totalOutstandingDebt: FormattedAmount;
+    globalDebtUtilizationPercent: string;
+    shareOfGlobalDebtPercent: string;
+    lpPositions: LpPosition[];
+}
+
+export interface LiquidityPlanOptions<T = unknown> {
+    // The share of the headroom to borrow, in percent, 100 by default
+    headroomPercent?: number;
+    slippage?: number;
+    options?: T;
+    priceGuard?: PriceGuardOptions;
+    // Simulates the planned tx from the sender
+    simulate?: boolean;
+}
+
+export interface PlannedTokenAmount extends TokenAmount {
+    balance: FormattedAmount;
+}
+
+export interface LiquidityPlan {
+    sender: string;
+    strategy: string;
+    lpAddress: string;
+    borrowable: FormattedAmount;
+    borrowerHeadroom: FormattedAmount;
+    globalHeadroom: FormattedAmount;
+    maxBorrow: FormattedAmount;
+    headroomPercent: number;
+    ohmAmount: FormattedAmount;
+    // What keeps the OHM amount from being any higher, i.e. collateral or
+    // the balance of one of the other tokens
+    limitedBy: string;
+    otherTokens: PlannedTokenAmount[];
+    tx: SimulatedTransaction;
+}
+
+export type RepaySource = "ohm" | "collateral";
+
+export interface UnwindOptions {
+    // Removed in order, until the debt is down to the target
+    positions?: StrategyPosition[];
+    // The debt to unwind to in OHM base units, 0 to unwind fully
+    targetDebt?: string;
+    // What repays the debt left after removing liquidity, OHM by default
+    repayWith?: RepaySource;
+    // Whether to withdraw the gOHM no longer backing debt, true by default
+    withdraw?: boolean;
+    slippage?: number;
+}
+
+export interface UnwindBalances {
+    debt: FormattedAmount;
+    collateral: FormattedAmount;
+    // The OHM held by the borrower, outside of IncurDebt
+    ohm: FormattedAmount;
+    // The LP tokens held by IncurDebt for the borrower, by LP token address
+    lpTokens: { [lpToken: string]: string };
+}
+
+export interface UnwindStep {
+    // The function the tx calls
+    action: string;
+    description: string;
+    tx: SimulatedTransaction;
+    // The tokens the borrower is expected to receive
+    received: TokenAmount[];
+    after: UnwindBalances;
+}
+
+export interface UnwindPlan {
+    borrower: string;
+    before: UnwindBalances;
+    steps: UnwindStep[];
+    warnings: string[];
+}
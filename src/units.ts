@@ -0,0 +1,76 @@
+import { BigNumber, BigNumberish, providers, utils } from "ethers";
+
+import { InvalidAmountError } from "./errors";
+import { getTokenMetadata } from "./tokens";
+import { FormattedAmount } from "./types";
+
+type BaseProvider = providers.BaseProvider;
+
+export const OHM_DECIMALS = 9;
+export const GOHM_DECIMALS = 18;
+
+// A decimal number, optionally followed by the symbol of the token
+const AMOUNT_PATTERN = /^\s*(\d+(?:\.\d+)?)\s*([A-Za-z][\w.-]*)?\s*$/;
+
+export const formatAmount = (
+    amount: BigNumberish,
+    decimals: number
+): FormattedAmount => ({
+    amount: amount.toString(),
+    formatted: utils.formatUnits(amount, decimals),
+});
+
+// Two decimal percentage of numerator over denominator
+export const percentage = (
+    numerator: BigNumberish,
+    denominator: BigNumberish
+): string => {
+    if (BigNumber.from(denominator).isZero()) return "0.0";
+    return utils.formatUnits(
+        BigNumber.from(numerator).mul("10000").div(denominator),
+        2
+    );
+};
+
+export async function parseTokenAmount(
+    provider: BaseProvider,
+    token: string,
+    amount: string,
+    human = false
+): Promise<string> {
+    const match = AMOUNT_PATTERN.exec(amount);
+    if (!match)
+        throw new InvalidAmountError(
+            "amount",
+            amount,
+            `Invalid amount: ${amount}`
+        );
+
+    const [, value, symbol] = match;
+
+    if (!symbol && !human) {
+        if (value.includes("."))
+            throw new InvalidAmountError(
+                "amount",
+                amount,
+                `${amount} is not a whole number of base units, pass a token symbol or human units to use decimals.`
+            );
+        return value;
+    }
+
+    const [{ symbol: tokenSymbol, decimals }] = await getTokenMetadata(
+        provider,
+        [token]
+    );
+
+    if (symbol) {
+        if (tokenSymbol.toLowerCase() != symbol.toLowerCase())
+            throw new InvalidAmountError(
+                "amount",
+                amount,
+                `Expected an amount of ${tokenSymbol} but got ${amount}.`
+            );
+    }
+
+    return utils.parseUnits(value, decimals).toString();
+}
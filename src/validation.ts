@@ -0,0 +1,77 @@
+import { BigNumber, utils } from "ethers";
+
+import {
+    InvalidAddressError,
+    InvalidAmountError,
+    InvalidInputError,
+    InvalidSlippageError,
+} from "./errors";
+
+// Returns the checksummed address, so that addresses given in any case
+// compare and encode the same
+export function validateAddress(label: string, address: unknown): string {
+    if (typeof address != "string" || !utils.isAddress(address))
+        throw new InvalidAddressError(label, address);
+
+    return utils.getAddress(address);
+}
+
+export const validateAddresses = (label: string, addresses: unknown[]) =>
+    addresses.map((address) => validateAddress(label, address));
+
+// Amounts are whole numbers of base units, given as strings to keep their
+// precision
+export function validateAmount(label: string, amount: unknown): string {
+    if (
+        typeof amount == "number" &&
+        Number.isSafeInteger(amount) &&
+        amount >= 0
+    )
+        return amount.toString();
+    if (typeof amount != "string" || !/^\d+$/.test(amount.trim()))
+        throw new InvalidAmountError(label, amount);
+
+    return BigNumber.from(amount.trim()).toString();
+}
+
+export const validateAmounts = (label: string, amounts: unknown[]) =>
+    amounts.map((amount) => validateAmount(label, amount));
+
+export function validateSlippage(slippage: unknown): number {
+    if (
+        typeof slippage != "number" ||
+        !Number.isFinite(slippage) ||
+        slippage < 0 ||
+        slippage >= 1
+    )
+        throw new InvalidSlippageError(slippage);
+
+    return slippage;
+}
+
+// Balancer pools are identified by a 32 byte id rather than an address
+export function validatePoolId(poolId: unknown): string {
+    if (typeof poolId != "string" || !utils.isHexString(poolId, 32))
+        throw new InvalidInputError(
+            `Invalid Balancer pool id: ${poolId}, expected 32 bytes of hex.`,
+            "INVALID_POOL_ID"
+        );
+
+    return poolId;
+}
+
+// Every other token given must come with an amount, and the other way round
+export function validateTokenAmounts(
+    tokens: unknown[],
+    amounts: unknown[]
+): [string[], string[]] {
+    if (tokens.length != amounts.length)
+        throw new InvalidInputError(
+            `${tokens.length} other tokens are given with ${amounts.length} amounts, they must match one for one.`
+        );
+
+    return [
+        validateAddresses("token", tokens),
+        validateAmounts("token amount", amounts),
+    ];
+}
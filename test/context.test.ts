@@ -0,0 +1,88 @@
+import { expect } from "chai";
+import { providers } from "ethers";
+
+import { Context } from "../src/context";
+import { CHAIN_ID } from "./fixtures/pools";
+import { MockProvider } from "./mocks";
+
+// Nothing listens on these ports, so connections are refused at once
+const UNREACHABLE_RPCS = ["http://127.0.0.1:1", "http://127.0.0.1:2"];
+
+async function expectRejection(
+    promise: Promise<unknown>,
+    message: string
+): Promise<void> {
+    try {
+        await promise;
+        expect.fail("The promise resolved.");
+    } catch (error) {
+        expect((error as Error).message).to.contain(message);
+    }
+}
+
+describe("Context", () => {
+    it("accepts an RPC on its chain", async () => {
+        const context = new Context(CHAIN_ID, "http://localhost:8545");
+        context.setProvider(new MockProvider(CHAIN_ID));
+
+        await context.verifyChainId();
+    });
+
+    it("rejects an RPC on another chain", async () => {
+        const context = new Context(CHAIN_ID, "http://localhost:8545");
+        context.setProvider(new MockProvider(5));
+
+        await expectRejection(
+            context.verifyChainId(),
+            "RPC is on chain 5 but chain 1 was requested."
+        );
+    });
+
+    it("falls back on RPCs in the order given", () => {
+        const context = new Context(CHAIN_ID, UNREACHABLE_RPCS, {
+            quorum: 2,
+            stallTimeout: 500,
+        });
+        const provider = context.fallbackProvider as providers.FallbackProvider;
+
+        expect(provider).to.be.instanceOf(providers.FallbackProvider);
+        expect(context.provider.connection.url).to.equal(UNREACHABLE_RPCS[0]);
+        expect(provider.quorum).to.equal(2);
+        expect(
+            provider.providerConfigs.map((config) => [
+                (config.provider as providers.JsonRpcProvider).connection.url,
+                config.priority,
+                config.stallTimeout,
+            ])
+        ).to.deep.equal([
+            [UNREACHABLE_RPCS[0], 1, 500],
+            [UNREACHABLE_RPCS[1], 2, 500],
+        ]);
+    });
+
+    it("rejects a quorum larger than the RPCs given", () => {
+        expect(
+            () => new Context(CHAIN_ID, UNREACHABLE_RPCS, { quorum: 3 })
+        ).to.throw(
+            "The quorum must be between 1 and the 2 RPC URLs given, got 3."
+        );
+    });
+
+    it("retries rate limited requests as configured", () => {
+        const context = new Context(CHAIN_ID, UNREACHABLE_RPCS[0], {
+            retries: 3,
+            retryInterval: 250,
+        });
+        const { connection } = context.provider;
+
+        expect(connection.throttleLimit).to.equal(4);
+        expect(connection.throttleSlotInterval).to.equal(250);
+    });
+
+    it("fails to create without enough RPCs for the quorum", async () => {
+        await expectRejection(
+            Context.create(CHAIN_ID, UNREACHABLE_RPCS),
+            "Only 0 of 2 RPCs could be reached, but a quorum of 1 is needed."
+        );
+    });
+});
@@ -0,0 +1,165 @@
+import { expect } from "chai";
+import { utils } from "ethers";
+import { parseUnits } from "ethers/lib/utils";
+
+import { Context } from "../src/context";
+import { decodeIncurDebtTx } from "../src/decode";
+import { getDeployment } from "../src/deployments";
+import { IncurDebt } from "../src/incurDebt";
+import { IncurDebtABI } from "../src/metadata/abis";
+import {
+    BALANCER_POOL_ID,
+    CHAIN_ID,
+    createFixtureContext,
+    createFixtureProvider,
+    CURVE_POOL,
+    GOHM,
+    SENDER,
+    UNISWAP_PAIR,
+} from "./fixtures/pools";
+
+const OHM_AMOUNT = parseUnits("10", 9).toString();
+
+describe("decodeIncurDebtTx", () => {
+    const context = createFixtureContext();
+    const incurDebt = new IncurDebt(context);
+
+    const addLiquidity = (strategy: string, lpAddress: string) =>
+        incurDebt.getAddLiquidityTx(
+            SENDER,
+            strategy,
+            lpAddress,
+            0.01,
+            OHM_AMOUNT
+        );
+
+    it("explains a borrow", async () => {
+        const decoded = await decodeIncurDebtTx(
+            await incurDebt.getBorrowTx(OHM_AMOUNT),
+            context
+        );
+
+        expect(decoded.method).to.equal("borrow");
+        expect(decoded.summary).to.deep.equal(["Borrow 10.0 OHM."]);
+        expect(decoded.warnings).to.deep.equal([]);
+    });
+
+    it("decodes Uniswap params with token symbols", async () => {
+        const decoded = await decodeIncurDebtTx(
+            await addLiquidity("uniswap", UNISWAP_PAIR),
+            context
+        );
+
+        expect(decoded.strategyParams?.strategy).to.equal("uniswap");
+        expect(decoded.summary.slice(1)).to.deep.equal([
+            "Deposit 10.0 OHM, 200.0 DAI.",
+            "Deposit at least 9.9 OHM, 198.0 DAI.",
+        ]);
+    });
+
+    it("decodes the params of a three coin Curve pool", async () => {
+        const decoded = await decodeIncurDebtTx(
+            await addLiquidity("curve", CURVE_POOL),
+            context
+        );
+
+        expect(decoded.strategyParams?.pool?.toLowerCase()).to.equal(
+            CURVE_POOL
+        );
+        expect(decoded.summary.slice(2)).to.deep.equal([
+            "Deposit 10.0 OHM, 200.0 DAI, 200.0 USDC.",
+            // The fixture pool has no LP token metadata
+            `Receive at least 594000000000000000000 ${utils.getAddress(
+                CURVE_POOL
+            )} LP tokens.`,
+        ]);
+    });
+
+    it("decodes Curve params on a chain set up by overrides", async () => {
+        const tx = await addLiquidity("curve", CURVE_POOL);
+        const overridden = new Context(424242, "http://localhost:8545", {
+            deployment: getDeployment(CHAIN_ID),
+        });
+        overridden.setProvider(createFixtureProvider());
+
+        const decoded = await decodeIncurDebtTx(tx, overridden);
+        expect(decoded.summary[2]).to.equal(
+            "Deposit 10.0 OHM, 200.0 DAI, 200.0 USDC."
+        );
+    });
+
+    it("decodes Balancer exit params", async () => {
+        const decoded = await decodeIncurDebtTx(
+            await incurDebt.getRemoveLiquidityTx(
+                parseUnits("5", 18).toString(),
+                "balancer",
+                BALANCER_POOL_ID
+            ),
+            context
+        );
+
+        expect(
+            decoded.strategyParams?.minAmounts.map((a) => a.formatted)
+        ).to.deep.equal(["4.95", "99.0"]);
+        expect(decoded.strategyParams?.liquidity?.amount).to.equal(
+            parseUnits("5", 18).toString()
+        );
+    });
+
+    it("warns when more OHM is deposited than borrowed", async () => {
+        const tx = await addLiquidity("uniswap", UNISWAP_PAIR);
+        const call = new utils.Interface(IncurDebtABI).parseTransaction({
+            data: tx.data as string,
+        });
+
+        const decoded = await decodeIncurDebtTx(
+            {
+                to: tx.to,
+                data: incurDebt.contract.interface.encodeFunctionData(
+                    "createLP",
+                    [parseUnits("1", 9), ...call.args.slice(1)]
+                ),
+            },
+            context
+        );
+
+        expect(decoded.warnings).to.deep.equal([
+            "1.0 OHM is borrowed but the uniswap strategy params deposit 10.0 OHM.",
+        ]);
+    });
+
+    it("warns about unknown strategies and recipients", async () => {
+        const tx = await addLiquidity("uniswap", UNISWAP_PAIR);
+        const call = incurDebt.contract.interface.parseTransaction({
+            data: tx.data as string,
+        });
+
+        const decoded = await decodeIncurDebtTx(
+            {
+                to: SENDER,
+                data: incurDebt.contract.interface.encodeFunctionData(
+                    "createLP",
+                    [call.args[0], SENDER, call.args[2]]
+                ),
+            },
+            context
+        );
+
+        expect(decoded.strategyParams).to.equal(undefined);
+        expect(decoded.warnings).to.have.length(2);
+    });
+
+    it("explains approvals", async () => {
+        const { txs } = await incurDebt.getDepositTxWithApprovals(
+            SENDER,
+            parseUnits("1", 18).toString()
+        );
+        const decoded = await decodeIncurDebtTx(txs[0], context);
+
+        expect(decoded.summary).to.deep.equal([
+            `Approve ${incurDebt.contract.address} to spend 1.0 gOHM.`,
+        ]);
+        expect(decoded.to?.toLowerCase()).to.equal(GOHM.toLowerCase());
+        expect(decoded.warnings).to.deep.equal([]);
+    });
+});
@@ -0,0 +1,185 @@
+import { expect } from "chai";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { Context } from "../src/context";
+import {
+    getDeployment,
+    loadDeployments,
+    registerDeployment,
+} from "../src/deployments";
+import { UnsupportedStrategyError } from "../src/errors";
+import { IncurDebt } from "../src/incurDebt";
+import { StrategyAddresses } from "../src/metadata/addresses";
+import {
+    CHAIN_ID,
+    createFixtureProvider,
+    INCUR_DEBT,
+    OHM,
+    SENDER,
+    UNISWAP_PAIR,
+} from "./fixtures/pools";
+
+// Every test registers its own chain, as registrations last for the run
+const SEPOLIA = 11155111;
+const ANVIL = 31337;
+const HARDHAT = 1337;
+
+const STRATEGY = "0x00000000000000000000000000000000000000c1";
+const VAULT = "0x00000000000000000000000000000000000000c2";
+
+describe("deployments", () => {
+    it("knows the mainnet deployment", () => {
+        const deployment = getDeployment(CHAIN_ID);
+
+        expect(deployment.incurDebt).to.equal(INCUR_DEBT);
+        expect(deployment.ohm).to.equal(OHM);
+        expect(deployment.strategies).to.deep.equal(
+            StrategyAddresses(CHAIN_ID)
+        );
+    });
+
+    it("fails fast on unknown chains", () => {
+        const context = new Context(424242, "http://localhost:8545");
+
+        expect(() => new IncurDebt(context)).to.throw(
+            "No IncurDebt deployment is known on chain 424242."
+        );
+    });
+
+    it("registers the deployments of a file", async () => {
+        const dir = mkdtempSync(join(tmpdir(), "incur-debt-"));
+        const file = join(dir, "deployments.json");
+        writeFileSync(
+            file,
+            JSON.stringify({
+                [SEPOLIA]: {
+                    incurDebt: INCUR_DEBT,
+                    ohm: OHM,
+                    strategies: { uniswap: STRATEGY },
+                },
+            })
+        );
+
+        try {
+            expect(await loadDeployments(file)).to.deep.equal([SEPOLIA]);
+        } finally {
+            rmSync(dir, { recursive: true });
+        }
+
+        const incurDebt = new IncurDebt(
+            new Context(SEPOLIA, "http://localhost:8545")
+        );
+        expect(incurDebt.registeredStrategies).to.deep.equal(["uniswap"]);
+    });
+
+    it("rejects files keyed by anything but chain ids", async () => {
+        const dir = mkdtempSync(join(tmpdir(), "incur-debt-"));
+        const file = join(dir, "deployments.json");
+        writeFileSync(file, JSON.stringify({ sepolia: { ohm: OHM } }));
+
+        try {
+            await loadDeployments(file);
+            expect.fail("The deployments file was loaded.");
+        } catch (error) {
+            expect((error as Error).message).to.contain(
+                "has an entry for sepolia, which is not a chain id"
+            );
+        } finally {
+            rmSync(dir, { recursive: true });
+        }
+    });
+
+    it("starts forks from the addresses of the chain they fork", () => {
+        registerDeployment(ANVIL, {
+            forkOf: CHAIN_ID,
+            balancerVault: VAULT,
+            strategies: { uniswap: STRATEGY },
+        });
+        const deployment = getDeployment(ANVIL);
+
+        expect(deployment.incurDebt).to.equal(INCUR_DEBT);
+        expect(deployment.balancerVault).to.equal(VAULT);
+        expect(deployment.strategies).to.deep.equal({
+            ...StrategyAddresses(CHAIN_ID),
+            uniswap: STRATEGY,
+        });
+    });
+
+    it("refuses forks of themselves", () => {
+        registerDeployment(HARDHAT, { forkOf: HARDHAT });
+
+        expect(() => getDeployment(HARDHAT)).to.throw(
+            "is a fork of itself, through chains 1337, 1337"
+        );
+    });
+
+    it("fails only on use for strategies that aren't built in", async () => {
+        const context = new Context(CHAIN_ID, "http://localhost:8545", {
+            deployment: { strategies: { velodrome: STRATEGY } },
+        });
+        context.setProvider(createFixtureProvider());
+        const incurDebt = new IncurDebt(context);
+
+        expect(incurDebt.registeredStrategies).to.not.include("velodrome");
+        try {
+            await incurDebt.getAddLiquidityTx(
+                SENDER,
+                "Velodrome",
+                UNISWAP_PAIR,
+                0.01,
+                "1000000000"
+            );
+            expect.fail("The strategy was used.");
+        } catch (error) {
+            expect(error).to.be.instanceOf(UnsupportedStrategyError);
+            expect((error as Error).message).to.contain(
+                "has an address for the Velodrome strategy, which isn't built in"
+            );
+        }
+    });
+
+    it("lays Context overrides over the deployment", () => {
+        const context = new Context(CHAIN_ID, "http://localhost:8545", {
+            deployment: { strategies: { uniswap: STRATEGY } },
+        });
+
+        expect(context.deployment.strategies.uniswap).to.equal(STRATEGY);
+        expect(context.deployment.strategies.curve).to.equal(
+            StrategyAddresses(CHAIN_ID)?.curve
+        );
+        expect(getDeployment(CHAIN_ID).strategies.uniswap).to.not.equal(
+            STRATEGY
+        );
+    });
+
+    it("rejects invalid addresses", () => {
+        const context = new Context(CHAIN_ID, "http://localhost:8545", {
+            deployment: { balancerHelper: "0x1234" },
+        });
+
+        expect(() => context.deployment).to.throw(
+            "Invalid balancerHelper address in the deployment of chain 1: 0x1234"
+        );
+    });
+
+    it("builds calldata for the strategy of an override", async () => {
+        const context = new Context(CHAIN_ID, "http://localhost:8545", {
+            deployment: { strategies: { uniswap: STRATEGY } },
+        });
+        context.setProvider(createFixtureProvider());
+
+        const tx = await new IncurDebt(context).getAddLiquidityTx(
+            SENDER,
+            "uniswap",
+            UNISWAP_PAIR,
+            0.01,
+            "10000000000",
+            [],
+            []
+        );
+
+        expect(tx.data).to.contain(STRATEGY.slice(2));
+    });
+});
@@ -0,0 +1,57 @@
+import { expect } from "chai";
+import { BigNumber, providers, Signer, utils } from "ethers";
+
+import { broadcastTransaction } from "../src/executor";
+import { INCUR_DEBT, SENDER } from "./fixtures/pools";
+
+const RECEIPT = {
+    transactionHash: utils.id("reverted"),
+    blockNumber: 100,
+    status: 0,
+    gasUsed: BigNumber.from(21000),
+    logs: [],
+} as unknown as providers.TransactionReceipt;
+
+// A signer whose transactions are mined, but fail the way ethers reports it
+function createSigner(error: Error): Signer {
+    return {
+        sendTransaction: async () => ({
+            hash: RECEIPT.transactionHash,
+            wait: () => Promise.reject(error),
+        }),
+    } as unknown as Signer;
+}
+
+describe("executor", () => {
+    it("returns the receipt of a reverted transaction", async () => {
+        const signer = createSigner(
+            Object.assign(new Error("transaction failed"), {
+                code: utils.Logger.errors.CALL_EXCEPTION,
+                receipt: RECEIPT,
+            })
+        );
+
+        const [receipt, events] = await broadcastTransaction(signer, {
+            from: SENDER,
+            to: INCUR_DEBT,
+        });
+
+        expect(receipt.status).to.equal(0);
+        expect(receipt.transactionHash).to.equal(RECEIPT.transactionHash);
+        expect(events).to.deep.equal([]);
+    });
+
+    it("rejects with errors other than a revert", async () => {
+        const signer = createSigner(new Error("timeout exceeded"));
+
+        try {
+            await broadcastTransaction(signer, {
+                from: SENDER,
+                to: INCUR_DEBT,
+            });
+            expect.fail("The transaction was reported as mined.");
+        } catch (error) {
+            expect((error as Error).message).to.equal("timeout exceeded");
+        }
+    });
+});
@@ -0,0 +1,198 @@
+import { BigNumber, utils } from "ethers";
+import { parseUnits } from "ethers/lib/utils";
+
+import { Context } from "../../src/context";
+import {
+    BalancerHelpersABI,
+    BalancerPoolABI,
+    BalancerVaultABI,
+    CurveCalcTokenAmountABI,
+    CurveGetDyABI,
+    ERC20ABI,
+    GohmABI,
+    IncurDebtABI,
+    StableSwapABI,
+    UniswapV2ABI,
+    UniswapV3PoolABI,
+} from "../../src/metadata/abis";
+import {
+    BalancerHelperAddress,
+    BalancerVaultAddress,
+    GohmAddress,
+    IncurDebtAddress,
+    OhmAddress,
+} from "../../src/metadata/addresses";
+import { getSqrtRatioAtTick } from "../../src/strategies/UniswapV3";
+import { MockProvider, revert } from "../mocks";
+
+// Mainnet state every fixture pool prices OHM at 20 DAI against
+export const CHAIN_ID = 1;
+
+export const OHM = OhmAddress(CHAIN_ID) as string;
+export const GOHM = GohmAddress(CHAIN_ID) as string;
+export const INCUR_DEBT = IncurDebtAddress(CHAIN_ID) as string;
+export const DAI = "0x6B175474E89094C44Da98b954EedeAC495271d0F";
+export const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+
+export const SENDER = "0x00000000000000000000000000000000000000a1";
+
+export const UNISWAP_PAIR = "0x00000000000000000000000000000000000000b1";
+export const SUSHI_PAIR = "0x00000000000000000000000000000000000000b2";
+export const UNISWAP_V3_POOL = "0x00000000000000000000000000000000000000b3";
+export const CURVE_POOL = "0x00000000000000000000000000000000000000b4";
+export const BALANCER_POOL = "0x00000000000000000000000000000000000000b5";
+export const BALANCER_POOL_ID = `${BALANCER_POOL}000200000000000000000001`;
+
+// Tick 237180 is a price of ~20 DAI per OHM, once decimals are accounted for
+export const UNISWAP_V3_TICK = 237180;
+
+const ohm = (amount: string) => parseUnits(amount, 9);
+const dai = (amount: string) => parseUnits(amount, 18);
+const usdc = (amount: string) => parseUnits(amount, 6);
+
+const CURVE_COINS = [OHM, DAI, USDC];
+const CURVE_BALANCES = [ohm("1000"), dai("20000"), usdc("20000")];
+
+const BALANCER_TOKENS = [OHM, DAI];
+const BALANCER_BALANCES = [ohm("1000"), dai("20000")];
+const BALANCER_SUPPLY = dai("1000");
+
+// The DAI value of Curve pool amounts, standing in for its invariant
+function curveValue(amounts: BigNumber[]): BigNumber {
+    return amounts[0]
+        .mul(parseUnits("20", 9))
+        .add(amounts[1])
+        .add(amounts[2].mul(BigNumber.from(10).pow(12)));
+}
+
+export function createFixtureProvider(): MockProvider {
+    const provider = new MockProvider(CHAIN_ID)
+        .mockMulticall()
+        .mockToken(OHM, 9, "OHM")
+        .mockToken(GOHM, 18, "gOHM")
+        .mockToken(DAI, 18, "DAI")
+        .mockToken(USDC, 6, "USDC");
+
+    // The sender holds gOHM it hasn't approved yet, and OHM it has
+    provider.mock(GOHM, ERC20ABI, {
+        balanceOf: () => parseUnits("10", 18),
+        allowance: () => 0,
+    });
+    // At an index of 300 OHM per gOHM
+    provider.mock(GOHM, GohmABI, {
+        balanceTo: ([amount]) => amount.mul(dai("1")).div(ohm("300")),
+    });
+    provider.mock(OHM, ERC20ABI, {
+        balanceOf: () => ohm("100"),
+        allowance: () => ohm("100"),
+    });
+
+    provider.mock(INCUR_DEBT, IncurDebtABI, {
+        deposit: () => undefined,
+        borrow: ([amount]) => {
+            if (amount.gt(ohm("500"))) throw revert("Exceeds borrowable");
+        },
+        createLP: ([ohmAmount]) => ohmAmount.mul(1000),
+        removeLP: ([liquidity]) => liquidity.div(1000),
+        withdraw: ([amount]) => {
+            if (amount.gt(dai("10"))) throw revert("Exceeds collateral");
+        },
+        getAvailableToBorrow: () => ohm("500"),
+        globalDebtLimit: () => ohm("100000"),
+        totalOutstandingGlobalDebt: () => ohm("25000"),
+        lpTokenOwnership: () => dai("10"),
+        borrowers: () => [ohm("1500"), ohm("2000"), dai("10"), 0, false, true],
+    });
+
+    // OHM as token0 on Uniswap, and as token1 against USDC on Sushiswap
+    provider.mock(UNISWAP_PAIR, UniswapV2ABI, {
+        token0: () => OHM,
+        token1: () => DAI,
+        getReserves: () => [ohm("1000"), dai("20000"), 0],
+        totalSupply: () => dai("100"),
+    });
+    provider.mock(SUSHI_PAIR, UniswapV2ABI, {
+        token0: () => USDC,
+        token1: () => OHM,
+        getReserves: () => [usdc("40000"), ohm("2000"), 0],
+        totalSupply: () => dai("50"),
+    });
+
+    provider.mock(UNISWAP_V3_POOL, UniswapV3PoolABI, {
+        token0: () => OHM,
+        token1: () => DAI,
+        fee: () => 3000,
+        tickSpacing: () => 60,
+        liquidity: () => dai("1000"),
+        slot0: () => [
+            getSqrtRatioAtTick(UNISWAP_V3_TICK),
+            UNISWAP_V3_TICK,
+            0,
+            1,
+            1,
+            0,
+            true,
+        ],
+    });
+
+    // A StableSwap pool of three coins, so coins(3) reverts
+    provider.mock(CURVE_POOL, StableSwapABI, {
+        coins: ([i]) => {
+            if (i.gte(CURVE_COINS.length)) throw revert("");
+            return CURVE_COINS[i.toNumber()];
+        },
+        balances: ([i]) => CURVE_BALANCES[i.toNumber()],
+    });
+    provider.mock(CURVE_POOL, CurveCalcTokenAmountABI(3), {
+        "calc_token_amount(uint256[3],bool)": ([amounts]) =>
+            curveValue(amounts),
+    });
+    provider.mock(CURVE_POOL, CurveGetDyABI, {
+        "get_dy(int128,int128,uint256)": ([, , amount]) =>
+            amount.mul(parseUnits("20", 9)),
+    });
+
+    // A 50/50 weighted pool, whose joins and exits are proportional
+    provider.mock(BalancerVaultAddress, BalancerVaultABI, {
+        getPoolTokens: () => [BALANCER_TOKENS, BALANCER_BALANCES, 0],
+        queryBatchSwap: ([, , assets]) =>
+            assets[0].toLowerCase() == OHM.toLowerCase()
+                ? [ohm("1"), dai("-20")]
+                : [dai("20"), ohm("-1")],
+    });
+    provider.mock(BALANCER_POOL, BalancerPoolABI, {
+        getNormalizedWeights: () => [dai("0.5"), dai("0.5")],
+        totalSupply: () => BALANCER_SUPPLY,
+    });
+    provider.mock(BalancerHelperAddress, BalancerHelpersABI, {
+        queryJoin: ([, , , request]) => [
+            BigNumber.from(request.maxAmountsIn[0])
+                .mul(BALANCER_SUPPLY)
+                .div(BALANCER_BALANCES[0]),
+            request.maxAmountsIn,
+        ],
+        queryExit: ([, , , request]) => {
+            const [, bptIn] = utils.defaultAbiCoder.decode(
+                ["uint256", "uint256"],
+                request.userData
+            );
+            return [
+                bptIn,
+                BALANCER_BALANCES.map((balance) =>
+                    balance.mul(bptIn).div(BALANCER_SUPPLY)
+                ),
+            ];
+        },
+    });
+
+    return provider;
+}
+
+export function createFixtureContext(
+    provider = createFixtureProvider()
+): Context {
+    // The URL is never reached, every call goes to the fixture provider
+    const context = new Context(CHAIN_ID, "http://localhost:8545");
+    context.setProvider(provider);
+    return context;
+}
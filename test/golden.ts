@@ -0,0 +1,32 @@
+import { expect } from "chai";
+import { readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+
+const GOLDEN_FILE = join(__dirname, "fixtures", "golden.json");
+
+function readGolden(): Record<string, string> {
+    try {
+        return JSON.parse(readFileSync(GOLDEN_FILE, "utf8"));
+    } catch {
+        return {};
+    }
+}
+
+// Compares calldata to the recorded one. Run the tests with UPDATE_GOLDEN=1
+// to record it again after an intended change.
+export function expectGolden(name: string, data: unknown): void {
+    const golden = readGolden();
+
+    if (process.env.UPDATE_GOLDEN) {
+        golden[name] = String(data);
+        writeFileSync(
+            GOLDEN_FILE,
+            JSON.stringify(golden, Object.keys(golden).sort(), 4) + "\n"
+        );
+        return;
+    }
+
+    expect(golden[name], `No golden calldata recorded for ${name}.`).to.not.be
+        .undefined;
+    expect(String(data)).to.equal(golden[name]);
+}
@@ -0,0 +1,199 @@
+import { expect } from "chai";
+import { parseUnits } from "ethers/lib/utils";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { historyToCsv } from "../src/history";
+import { IncurDebt } from "../src/incurDebt";
+import { IncurDebtABI } from "../src/metadata/abis";
+import {
+    createFixtureContext,
+    createFixtureProvider,
+    INCUR_DEBT,
+    SENDER,
+    UNISWAP_PAIR,
+} from "./fixtures/pools";
+import { MockProvider } from "./mocks";
+
+const OTHER_BORROWER = "0x00000000000000000000000000000000000000a2";
+
+// A borrower depositing, borrowing, providing liquidity and unwinding it
+function createHistoryProvider(): MockProvider {
+    const provider = createFixtureProvider();
+    const emit = (event: string, args: unknown[], blockNumber: number) =>
+        provider.mockLog(INCUR_DEBT, IncurDebtABI, event, args, blockNumber);
+
+    emit("BorrowerDeposit", [SENDER, parseUnits("10", 18)], 10);
+    emit("BorrowerDeposit", [OTHER_BORROWER, parseUnits("5", 18)], 10);
+    emit(
+        "Borrowed",
+        [
+            SENDER,
+            parseUnits("100", 9),
+            parseUnits("100", 9),
+            parseUnits("100", 9),
+        ],
+        120
+    );
+    emit(
+        "LpAdded",
+        [SENDER, UNISWAP_PAIR, parseUnits("50", 9), parseUnits("4", 18)],
+        250
+    );
+    emit(
+        "LpRemoved",
+        [SENDER, UNISWAP_PAIR, parseUnits("4", 18), parseUnits("50", 9)],
+        310
+    );
+    emit("DebtPaidWithOHM", [SENDER, parseUnits("100", 9)], 390);
+    emit("Withdrawal", [SENDER, parseUnits("10", 18)], 390);
+
+    return provider;
+}
+
+describe("history", () => {
+    it("rebuilds a borrower's ledger from IncurDebt's events", async () => {
+        const incurDebt = new IncurDebt(
+            createFixtureContext(createHistoryProvider())
+        );
+        const history = await incurDebt.getHistory(SENDER, 0);
+
+        expect(history.toBlock).to.equal(390);
+        expect(history.entries.map((entry) => entry.type)).to.deep.equal([
+            "deposit",
+            "borrow",
+            "lp-added",
+            "lp-removed",
+            "repayment-ohm",
+            "withdrawal",
+        ]);
+        expect(history.entries[2]).to.deep.include({
+            blockNumber: 250,
+            timestamp: 1600000000 + 250 * 12,
+            event: "LpAdded",
+            ohmAmount: parseUnits("50", 9).toString(),
+            gohmAmount: "0",
+            lpToken: "0x00000000000000000000000000000000000000B1",
+            lpAmount: parseUnits("4", 18).toString(),
+        });
+        expect(history.entries[5].logIndex).to.equal(1);
+    });
+
+    it("gets logs in chunks, splitting those the node refuses", async () => {
+        const provider = createHistoryProvider();
+        provider.maxLogRange = 50;
+        const incurDebt = new IncurDebt(createFixtureContext(provider));
+
+        const history = await incurDebt.getHistory(SENDER, 0, 199, {
+            chunkSize: 100,
+        });
+
+        expect(history.entries).to.have.length(2);
+        expect(provider.logQueries).to.deep.equal([
+            [0, 99],
+            [0, 49],
+            [50, 99],
+            [100, 199],
+            [100, 149],
+            [150, 199],
+        ]);
+    });
+
+    it("reports errors other than a refused range without splitting", async () => {
+        const provider = createHistoryProvider();
+        provider.getLogs = async (filter) => {
+            provider.logQueries.push([
+                filter.fromBlock as number,
+                filter.toBlock as number,
+            ]);
+            throw new Error("missing response");
+        };
+        const incurDebt = new IncurDebt(createFixtureContext(provider));
+
+        try {
+            await incurDebt.getHistory(SENDER, 0, 199, { chunkSize: 100 });
+        } catch (error) {
+            expect((error as Error).message).to.equal("missing response");
+            expect(provider.logQueries).to.deep.equal([[0, 99]]);
+            return;
+        }
+        expect.fail("Expected the node's error to be reported.");
+    });
+
+    describe("checkpoints", () => {
+        let directory: string;
+
+        beforeEach(() => {
+            directory = mkdtempSync(join(tmpdir(), "incur-debt-history-"));
+        });
+
+        afterEach(() => {
+            rmSync(directory, { recursive: true, force: true });
+        });
+
+        it("resumes a scan from its checkpoint", async () => {
+            const checkpointFile = join(directory, "checkpoint.json");
+            const provider = createHistoryProvider();
+            const incurDebt = new IncurDebt(createFixtureContext(provider));
+
+            await incurDebt.getHistory(SENDER, 0, 199, {
+                checkpointFile,
+                chunkSize: 100,
+            });
+            expect(
+                JSON.parse(readFileSync(checkpointFile, "utf8")).toBlock
+            ).to.equal(199);
+
+            const history = await incurDebt.getHistory(SENDER, 0, 399, {
+                checkpointFile,
+                chunkSize: 100,
+            });
+
+            expect(history.entries).to.have.length(6);
+            expect(provider.logQueries.slice(2)).to.deep.equal([
+                [200, 299],
+                [300, 399],
+            ]);
+        });
+
+        it("refuses the checkpoint of another scan", async () => {
+            const checkpointFile = join(directory, "checkpoint.json");
+            const incurDebt = new IncurDebt(
+                createFixtureContext(createHistoryProvider())
+            );
+
+            await incurDebt.getHistory(SENDER, 0, 199, { checkpointFile });
+
+            try {
+                await incurDebt.getHistory(OTHER_BORROWER, 0, 199, {
+                    checkpointFile,
+                });
+            } catch (error) {
+                expect((error as Error).message).to.include("another scan");
+                return;
+            }
+            expect.fail("Expected the checkpoint to be refused.");
+        });
+    });
+
+    it("exports the ledger as CSV", async () => {
+        const incurDebt = new IncurDebt(
+            createFixtureContext(createHistoryProvider())
+        );
+        const csv = historyToCsv(await incurDebt.getHistory(SENDER, 0, 120));
+
+        const [header, deposit, borrow] = csv.trim().split("\n");
+        expect(header).to.equal(
+            "date,block,transaction,log index,type,OHM,gOHM,LP token,LP amount"
+        );
+        expect(deposit).to.match(
+            /^2020-09-13T12:28:40.000Z,10,0x[0-9a-f]{64},0,deposit,,10.0,,$/
+        );
+        expect(borrow.split(",").slice(4, 7)).to.deep.equal([
+            "borrow",
+            "100.0",
+            "",
+        ]);
+    });
+});
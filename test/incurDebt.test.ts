@@ -0,0 +1,501 @@
+import { expect } from "chai";
+import { utils } from "ethers";
+import { parseUnits } from "ethers/lib/utils";
+
+import {
+    InsufficientBorrowableError,
+    InsufficientHeadroomError,
+    PriceDeviationError,
+    PriceGuardError,
+} from "../src/errors";
+import { IncurDebt } from "../src/incurDebt";
+import { ERC20ABI } from "../src/metadata/abis";
+import { StrategyAddresses } from "../src/metadata/addresses";
+import { UniswapV3 } from "../src/strategies/UniswapV3";
+import {
+    PriceGuardOptions,
+    SimulatedTransaction,
+    UniswapV3Options,
+} from "../src/types";
+import {
+    BALANCER_POOL,
+    BALANCER_POOL_ID,
+    CHAIN_ID,
+    createFixtureContext,
+    createFixtureProvider,
+    CURVE_POOL,
+    DAI,
+    GOHM,
+    INCUR_DEBT,
+    OHM,
+    SENDER,
+    SUSHI_PAIR,
+    UNISWAP_PAIR,
+    UNISWAP_V3_POOL,
+    USDC,
+} from "./fixtures/pools";
+import { expectGolden } from "./golden";
+
+const OHM_AMOUNT = parseUnits("10", 9).toString();
+const GOHM_AMOUNT = parseUnits("1", 18).toString();
+const LIQUIDITY = parseUnits("5", 18).toString();
+
+const strategyAddresses = StrategyAddresses(CHAIN_ID) as NonNullable<
+    ReturnType<typeof StrategyAddresses>
+>;
+
+function expectTx(
+    name: string,
+    tx: SimulatedTransaction,
+    to = INCUR_DEBT
+): void {
+    expect(tx.to).to.equal(utils.getAddress(to));
+    expectGolden(name, tx.data);
+}
+
+describe("IncurDebt", () => {
+    const incurDebt = new IncurDebt(createFixtureContext());
+
+    describe("collateral and debt transactions", () => {
+        it("builds deposit", async () => {
+            expectTx("deposit", await incurDebt.getDepositTx(GOHM_AMOUNT));
+        });
+
+        it("builds borrow", async () => {
+            expectTx("borrow", await incurDebt.getBorrowTx(OHM_AMOUNT));
+        });
+
+        it("builds withdraw", async () => {
+            expectTx("withdraw", await incurDebt.getWithdrawTx(GOHM_AMOUNT));
+        });
+
+        it("builds withdrawLP", async () => {
+            expectTx(
+                "withdrawLP",
+                await incurDebt.getWithdrawLiquidityTx(LIQUIDITY, UNISWAP_PAIR)
+            );
+        });
+
+        it("builds each way of repaying debt", async () => {
+            expectTx(
+                "repayDebtWithOHM",
+                await incurDebt.getRepayDebtTx(OHM_AMOUNT, false, false)
+            );
+            expectTx(
+                "repayDebtWithCollateral",
+                await incurDebt.getRepayDebtTx("0", true, false)
+            );
+            expectTx(
+                "repayDebtWithCollateralAndWithdrawTheRest",
+                await incurDebt.getRepayDebtTx("0", true, true)
+            );
+        });
+    });
+
+    describe("createLP", () => {
+        const addLiquidity = (strategy: string, lpAddress: string) =>
+            incurDebt.getAddLiquidityTx(
+                SENDER,
+                strategy,
+                lpAddress,
+                0.01,
+                OHM_AMOUNT
+            );
+
+        for (const [strategy, lpAddress] of [
+            ["uniswap", UNISWAP_PAIR],
+            ["sushiswap", SUSHI_PAIR],
+            ["curve", CURVE_POOL],
+            ["balancer", BALANCER_POOL_ID],
+        ])
+            it(`builds it for ${strategy}`, async () => {
+                const tx = await addLiquidity(strategy, lpAddress);
+                expectTx(`createLP.${strategy}`, tx);
+
+                const { args } = incurDebt.contract.interface.parseTransaction({
+                    data: tx.data as string,
+                });
+                expect(args._strategy.toLowerCase()).to.equal(
+                    strategyAddresses[
+                        strategy as keyof typeof strategyAddresses
+                    ].toLowerCase()
+                );
+            });
+
+        it("builds it for a registered strategy", async () => {
+            const registered = new IncurDebt(createFixtureContext());
+            registered.registerStrategy<UniswapV3Options>(
+                "uniswapv3",
+                UniswapV3.create,
+                "0x00000000000000000000000000000000000000c3"
+            );
+
+            expectTx(
+                "createLP.uniswapv3",
+                await registered.getAddLiquidityTx<UniswapV3Options>(
+                    SENDER,
+                    "uniswapv3",
+                    UNISWAP_V3_POOL,
+                    0.01,
+                    OHM_AMOUNT,
+                    [],
+                    [],
+                    { fee: 3000, priceBand: 0.1 }
+                )
+            );
+        });
+
+        const guardedAddLiquidity = (priceGuard: PriceGuardOptions) =>
+            incurDebt.getAddLiquidityTx(
+                SENDER,
+                "uniswap",
+                UNISWAP_PAIR,
+                0.01,
+                OHM_AMOUNT,
+                [],
+                [],
+                undefined,
+                undefined,
+                priceGuard
+            );
+
+        it("refuses a pool whose price is off the reference", async () => {
+            try {
+                await guardedAddLiquidity({
+                    maxDeviationBps: 100,
+                    referencePrice: "25",
+                });
+            } catch (error) {
+                expect(error).to.be.instanceOf(PriceDeviationError);
+                expect((error as Error).message).to.include("deviates");
+                return;
+            }
+            expect.fail("Expected the price guard to refuse the pool.");
+        });
+
+        it("explains a TWAP whose past state can't be read", async () => {
+            try {
+                await guardedAddLiquidity({ maxDeviationBps: 100 });
+            } catch (error) {
+                expect(error).to.be.instanceOf(PriceGuardError);
+                expect((error as Error).message).to.include(
+                    "need an archive node"
+                );
+                return;
+            }
+            expect.fail("Expected the price guard to fail.");
+        });
+    });
+
+    describe("removeLP", () => {
+        for (const [strategy, lpAddress, lpToken] of [
+            ["uniswap", UNISWAP_PAIR, UNISWAP_PAIR],
+            ["sushiswap", SUSHI_PAIR, SUSHI_PAIR],
+            ["curve", CURVE_POOL, CURVE_POOL],
+            ["balancer", BALANCER_POOL_ID, BALANCER_POOL],
+        ])
+            it(`builds it for ${strategy}`, async () => {
+                const tx = await incurDebt.getRemoveLiquidityTx(
+                    LIQUIDITY,
+                    strategy,
+                    lpAddress
+                );
+                expectTx(`removeLP.${strategy}`, tx);
+
+                const { args } = incurDebt.contract.interface.parseTransaction({
+                    data: tx.data as string,
+                });
+                expect(args._lpToken.toLowerCase()).to.equal(lpToken);
+            });
+    });
+
+    describe("approvals", () => {
+        it("adds a gOHM approval before depositing", async () => {
+            const { txs, warnings } = await incurDebt.getDepositTxWithApprovals(
+                SENDER,
+                GOHM_AMOUNT
+            );
+
+            expect(txs).to.have.length(2);
+            expectTx("approve.gOHM", txs[0], GOHM);
+            expectTx("deposit", txs[1]);
+            expect(warnings).to.have.length(1);
+        });
+
+        it("skips the OHM approval when the allowance is enough", async () => {
+            const { txs, warnings } =
+                await incurDebt.getRepayDebtTxWithApprovals(
+                    SENDER,
+                    OHM_AMOUNT,
+                    false,
+                    false
+                );
+
+            expect(txs).to.have.length(1);
+            expectTx("repayDebtWithOHM", txs[0]);
+            expect(warnings).to.deep.equal([]);
+        });
+    });
+
+    describe("simulation", () => {
+        it("attaches the return value", async () => {
+            const tx = await incurDebt.getAddLiquidityTx(
+                SENDER,
+                "uniswap",
+                UNISWAP_PAIR,
+                0.01,
+                OHM_AMOUNT,
+                [],
+                [],
+                undefined,
+                SENDER
+            );
+
+            expect(tx.simulation).to.deep.equal({
+                success: true,
+                returnValue: parseUnits("10000", 9).toString(),
+            });
+        });
+
+        it("decodes the revert reason", async () => {
+            const tx = await incurDebt.getWithdrawTx(
+                parseUnits("20", 18).toString(),
+                SENDER
+            );
+
+            expect(tx.simulation).to.deep.equal({
+                success: false,
+                revertReason: "Exceeds collateral",
+            });
+        });
+
+        it("refuses to borrow more than the borrower can", async () => {
+            try {
+                await incurDebt.getBorrowTx(
+                    parseUnits("600", 9).toString(),
+                    SENDER
+                );
+                expect.fail("The borrow was built.");
+            } catch (error) {
+                expect(error).to.be.instanceOf(InsufficientBorrowableError);
+                expect((error as Error).message).to.contain(
+                    "can borrow 500.0 OHM at most, but 600.0 OHM is requested."
+                );
+            }
+        });
+    });
+
+    describe("planning", () => {
+        // The sender holds DAI, but no USDC
+        const withDai = (amount: string) => {
+            const provider = createFixtureProvider()
+                .mock(DAI, ERC20ABI, {
+                    balanceOf: () => parseUnits(amount, 18),
+                })
+                .mock(USDC, ERC20ABI, { balanceOf: () => 0 });
+            return new IncurDebt(createFixtureContext(provider));
+        };
+
+        it("borrows all of the headroom the other tokens can match", async () => {
+            const plan = await withDai("20000").planLiquidity(
+                SENDER,
+                "uniswap",
+                UNISWAP_PAIR
+            );
+
+            expect(plan.maxBorrow.formatted).to.equal("500.0");
+            expect(plan.ohmAmount.formatted).to.equal("500.0");
+            expect(plan.limitedBy).to.equal("collateral");
+            expect(plan.otherTokens).to.deep.equal([
+                {
+                    token: DAI,
+                    symbol: "DAI",
+                    amount: parseUnits("10000", 18).toString(),
+                    formatted: "10000.0",
+                    balance: {
+                        amount: parseUnits("20000", 18).toString(),
+                        formatted: "20000.0",
+                    },
+                },
+            ]);
+        });
+
+        it("borrows a share of the headroom", async () => {
+            const plan = await withDai("20000").planLiquidity(
+                SENDER,
+                "balancer",
+                BALANCER_POOL_ID,
+                { headroomPercent: 50 }
+            );
+
+            expect(plan.ohmAmount.formatted).to.equal("250.0");
+            expect(plan.limitedBy).to.equal("headroom percent");
+            expect(plan.otherTokens[0].formatted).to.equal("5000.0");
+        });
+
+        it("borrows only what the other tokens can match", async () => {
+            const plan = await withDai("4000").planLiquidity(
+                SENDER,
+                "uniswap",
+                UNISWAP_PAIR
+            );
+
+            expect(plan.ohmAmount.formatted).to.equal("200.0");
+            expect(plan.limitedBy).to.equal("DAI balance");
+            expect(plan.otherTokens[0].formatted).to.equal("4000.0");
+
+            const { args } = incurDebt.contract.interface.parseTransaction({
+                data: plan.tx.data as string,
+            });
+            expect(args._ohmAmount.toString()).to.equal(plan.ohmAmount.amount);
+        });
+
+        it("refuses to plan without the other tokens", async () => {
+            try {
+                await withDai("4000").planLiquidity(
+                    SENDER,
+                    "sushiswap",
+                    SUSHI_PAIR
+                );
+                expect.fail("The liquidity was planned.");
+            } catch (error) {
+                expect(error).to.be.instanceOf(InsufficientHeadroomError);
+                expect((error as Error).message).to.contain(
+                    "holds none of the USDC"
+                );
+            }
+        });
+    });
+
+    describe("unwinding", () => {
+        const positions = [{ strategy: "uniswap", lpAddress: UNISWAP_PAIR }];
+
+        it("removes the LP, repays the rest and withdraws", async () => {
+            const plan = await incurDebt.planUnwind(SENDER, { positions });
+
+            expect(plan.steps.map((step) => step.action)).to.deep.equal([
+                "removeLP",
+                "approve",
+                "repayDebtWithOHM",
+                "withdraw",
+            ]);
+            expect(plan.before.debt.formatted).to.equal("1500.0");
+
+            // A tenth of the pair repays 100 OHM and returns 2000 DAI
+            const [removeLP, , repay, withdraw] = plan.steps;
+            expect(removeLP.received).to.deep.equal([
+                {
+                    token: DAI,
+                    symbol: "DAI",
+                    amount: parseUnits("2000", 18).toString(),
+                    formatted: "2000.0",
+                },
+            ]);
+            expect(removeLP.after.debt.formatted).to.equal("1400.0");
+            expect(removeLP.after.lpTokens).to.deep.equal({
+                [utils.getAddress(UNISWAP_PAIR)]: "0",
+            });
+
+            expect(repay.after.debt.formatted).to.equal("0.0");
+            expect(withdraw.after.collateral.formatted).to.equal("0.0");
+            expect(withdraw.received[0].formatted).to.equal("10.0");
+            expect(plan.warnings[0]).to.contain(
+                "expected to hold 100.0 OHM, but repaying the debt left takes 1400.0 OHM"
+            );
+        });
+
+        it("unwinds only down to a target debt", async () => {
+            const plan = await incurDebt.planUnwind(SENDER, {
+                positions,
+                targetDebt: parseUnits("1450", 9).toString(),
+            });
+
+            expect(plan.steps.map((step) => step.action)).to.deep.equal([
+                "removeLP",
+                "withdraw",
+            ]);
+
+            // Half of the LP is enough to repay 50 OHM
+            const [removeLP, withdraw] = plan.steps;
+            expectTx("removeLP.uniswap", removeLP.tx);
+            expect(removeLP.after.debt.formatted).to.equal("1450.0");
+
+            // 1450 OHM of debt stays backed by 4.83 gOHM
+            expect(withdraw.after.collateral.amount).to.equal(
+                parseUnits("1450", 18).div(300).toString()
+            );
+        });
+
+        it("repays with collateral and withdraws the rest at once", async () => {
+            const plan = await incurDebt.planUnwind(SENDER, {
+                repayWith: "collateral",
+            });
+
+            expect(plan.steps).to.have.length(1);
+            const [repay] = plan.steps;
+            expect(repay.action).to.equal(
+                "repayDebtWithCollateralAndWithdrawTheRest"
+            );
+            expectTx("repayDebtWithCollateralAndWithdrawTheRest", repay.tx);
+            expect(repay.received[0].formatted).to.equal("5.0");
+            expect(repay.after.debt.formatted).to.equal("0.0");
+            expect(repay.after.collateral.formatted).to.equal("0.0");
+        });
+    });
+
+    describe("reads", () => {
+        it("reports a position", async () => {
+            const report = await incurDebt.getPositionReport(SENDER, [
+                UNISWAP_PAIR,
+            ]);
+
+            expect(report.debt.formatted).to.equal("1500.0");
+            expect(report.borrowable.formatted).to.equal("500.0");
+            expect(report.debtToLimitPercent).to.equal("75.0");
+            expect(report.globalDebtUtilizationPercent).to.equal("25.0");
+            expect(report.lpPositions[0].underlying).to.deep.equal([
+                {
+                    token: utils.getAddress(OHM),
+                    symbol: "OHM",
+                    amount: parseUnits("100", 9).toString(),
+                    formatted: "100.0",
+                },
+                {
+                    token: DAI,
+                    symbol: "DAI",
+                    amount: parseUnits("2000", 18).toString(),
+                    formatted: "2000.0",
+                },
+            ]);
+        });
+
+        it("breaks down the liquidity of any strategy", async () => {
+            const report = await incurDebt.getPositionReport(SENDER, [
+                { strategy: "curve", lpAddress: CURVE_POOL },
+                { strategy: "balancer", lpAddress: BALANCER_POOL_ID },
+            ]);
+
+            const [curve, balancer] = report.lpPositions;
+            expect(curve.underlying.map((token) => token.symbol)).to.deep.equal(
+                ["OHM", "DAI", "USDC"]
+            );
+            expect(balancer.lpAddress).to.equal(
+                utils.getAddress(BALANCER_POOL)
+            );
+            expect(
+                balancer.underlying.map((token) => token.symbol)
+            ).to.deep.equal(["OHM", "DAI"]);
+        });
+
+        it("reports why a position can't be read", async () => {
+            try {
+                await incurDebt.getPositionReport(SENDER, [SENDER]);
+                expect.fail("The position was reported.");
+            } catch (error) {
+                expect((error as Error).message).to.contain(
+                    "No mocked contract"
+                );
+            }
+        });
+    });
+});
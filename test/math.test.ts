@@ -0,0 +1,154 @@
+import { expect } from "chai";
+import { BigNumber, constants } from "ethers";
+import { parseUnits } from "ethers/lib/utils";
+
+import { EmptyPoolError } from "../src/errors";
+import {
+    mulDiv,
+    scaleDecimals,
+    slippageFactor,
+    toWad,
+    WAD,
+    wadDiv,
+    wadMul,
+} from "../src/math";
+import { getCounterAmount } from "../src/strategies/TwoTokenStrategy";
+
+describe("math", () => {
+    describe("mulDiv", () => {
+        it("rounds down by default", () => {
+            expect(mulDiv(10, 1, 3).toString()).to.equal("3");
+        });
+
+        it("rounds up when asked to", () => {
+            expect(mulDiv(10, 1, 3, "up").toString()).to.equal("4");
+            expect(mulDiv(9, 1, 3, "up").toString()).to.equal("3");
+        });
+
+        it("doesn't overflow on intermediate products", () => {
+            expect(
+                mulDiv(
+                    constants.MaxUint256,
+                    constants.MaxUint256,
+                    constants.MaxUint256
+                ).eq(constants.MaxUint256)
+            ).to.equal(true);
+        });
+
+        it("throws on division by zero", () => {
+            expect(() => mulDiv(1, 1, 0)).to.throw("Division by zero.");
+        });
+    });
+
+    describe("wadMul and wadDiv", () => {
+        it("keep ratios far below 0.001", () => {
+            const ratio = wadDiv(1, 1_000_000);
+            expect(ratio.toString()).to.equal("1000000000000");
+            expect(wadMul(1_000_000, ratio).toString()).to.equal("1");
+        });
+
+        it("round in the requested direction", () => {
+            expect(wadDiv(2, 3).toString()).to.equal("666666666666666666");
+            expect(wadDiv(2, 3, "up").toString()).to.equal(
+                "666666666666666667"
+            );
+        });
+    });
+
+    describe("toWad", () => {
+        it("converts decimals exactly", () => {
+            expect(toWad(0.01).toString()).to.equal("10000000000000000");
+            expect(toWad("0.0005").toString()).to.equal("500000000000000");
+        });
+
+        it("converts numbers printed in exponent notation", () => {
+            expect(toWad(1e-7).toString()).to.equal("100000000000");
+        });
+    });
+
+    describe("scaleDecimals", () => {
+        it("scales up without loss", () => {
+            expect(scaleDecimals(1, 6, 18).eq(parseUnits("1", 12))).to.equal(
+                true
+            );
+        });
+
+        it("scales down with the requested rounding", () => {
+            expect(scaleDecimals(1_500, 9, 6).toString()).to.equal("1");
+            expect(scaleDecimals(1_500, 9, 6, "up").toString()).to.equal("2");
+        });
+
+        it("handles tokens with no decimals and with more than 18", () => {
+            expect(scaleDecimals(7, 0, 24).eq(parseUnits("7", 24))).to.equal(
+                true
+            );
+            expect(
+                scaleDecimals(parseUnits("7", 24), 24, 0).toString()
+            ).to.equal("7");
+        });
+    });
+
+    describe("slippageFactor", () => {
+        it("keeps slippage finer than 0.1%", () => {
+            expect(slippageFactor(0.0005).toString()).to.equal(
+                "999500000000000000"
+            );
+            expect(
+                wadMul(1_000_000, slippageFactor(0.0005)).toString()
+            ).to.equal("999500");
+        });
+
+        it("rejects slippage outside of [0, 1)", () => {
+            expect(() => slippageFactor(-0.01)).to.throw();
+            expect(() => slippageFactor(1)).to.throw();
+            expect(slippageFactor(0).eq(WAD)).to.equal(true);
+        });
+    });
+
+    describe("reserve ratios", () => {
+        it("prices OHM at thousands of a 6 decimal token", () => {
+            // 1,000 OHM against 5,000,000 USDC, so 1 OHM is worth 5,000 USDC
+            const amount = getCounterAmount(
+                parseUnits("2", 9),
+                parseUnits("1000", 9),
+                parseUnits("5000000", 6)
+            );
+            expect(amount.eq(parseUnits("10000", 6))).to.equal(true);
+        });
+
+        it("prices a token worth thousands of OHM", () => {
+            // 1,000,000 OHM against 100 of an 18 decimal token
+            const amount = getCounterAmount(
+                parseUnits("10", 9),
+                parseUnits("1000000", 9),
+                parseUnits("100", 18)
+            );
+            expect(amount.eq(parseUnits("0.001", 18))).to.equal(true);
+        });
+
+        it("handles reserves at the uint112 limit", () => {
+            const maxReserves = BigNumber.from(2).pow(112).sub(1);
+            const amount = getCounterAmount(
+                parseUnits("1", 18),
+                maxReserves,
+                maxReserves
+            );
+            expect(amount.eq(parseUnits("1", 18))).to.equal(true);
+        });
+
+        it("doesn't round through a ratio of whole tokens", () => {
+            // 1 OHM against 3 of an 18 decimal token, whose ratio of
+            // 0.333... can't be held exactly in 18 decimals
+            const amount = getCounterAmount(
+                parseUnits("2", 9),
+                parseUnits("1", 9),
+                parseUnits("3", 18)
+            );
+            expect(amount.eq(parseUnits("6", 18))).to.equal(true);
+        });
+
+        it("refuses a pool holding no OHM", () => {
+            expect(() => getCounterAmount(1, 0, 1)).to.throw(EmptyPoolError);
+        });
+    });
+});
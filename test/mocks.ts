@@ -0,0 +1,226 @@
+import { providers, utils } from "ethers";
+import { Deferrable, resolveProperties } from "ethers/lib/utils";
+
+import { ERC20ABI, Multicall3ABI } from "../src/metadata/abis";
+import { Multicall3Address } from "../src/metadata/addresses";
+
+// Returns the outputs of a contract function, given its decoded arguments
+// and the address calling it
+export type MockFunction = (args: utils.Result, from?: string) => unknown;
+
+interface MockContract {
+    abi: string[];
+    functions: Record<string, MockFunction>;
+}
+
+// An error carrying revert data the way nodes return it
+export function revert(reason: string): Error {
+    const error = new Error(`execution reverted: ${reason}`);
+    return Object.assign(error, {
+        data: new utils.Interface([
+            "function Error(string)",
+        ]).encodeFunctionData("Error", [reason]),
+    });
+}
+
+// A provider answering eth_call from mocked contracts instead of a node,
+// counting the calls each contract receives
+export class MockProvider extends providers.JsonRpcProvider {
+    readonly calls: Record<string, number> = {};
+
+    // The block ranges of every getLogs query, in order
+    readonly logQueries: [number, number][] = [];
+
+    latestBlock = 0;
+
+    // The most blocks a getLogs query may span, like the limits of RPCs
+    maxLogRange = Infinity;
+
+    private contracts: Record<string, MockContract> = {};
+
+    private logs: providers.Log[] = [];
+
+    private multicall = false;
+
+    constructor(private mockChainId = 1) {
+        super();
+    }
+
+    async detectNetwork(): Promise<providers.Network> {
+        return { chainId: this.mockChainId, name: "mock" };
+    }
+
+    async send(method: string, params: unknown[]): Promise<unknown> {
+        if (method == "eth_chainId") return utils.hexValue(this.mockChainId);
+        return await super.send(method, params);
+    }
+
+    // Mocks functions of the contract at an address, on top of the ones
+    // already mocked there. Functions are keyed by name, or by signature
+    // to tell overloads apart.
+    mock(
+        address: string,
+        abi: string[],
+        functions: Record<string, MockFunction>
+    ): this {
+        const contract = this.contracts[address.toLowerCase()] ?? {
+            abi: [],
+            functions: {},
+        };
+
+        const signatures = contract.abi.map((fragment) =>
+            utils.Fragment.from(fragment).format()
+        );
+        for (const fragment of abi)
+            if (!signatures.includes(utils.Fragment.from(fragment).format()))
+                contract.abi.push(fragment);
+        Object.assign(contract.functions, functions);
+
+        this.contracts[address.toLowerCase()] = contract;
+        return this;
+    }
+
+    // Deploys Multicall3, running each call it batches through the mocks
+    mockMulticall(): this {
+        this.multicall = true;
+        return this;
+    }
+
+    mockToken(address: string, decimals: number, symbol = "TKN"): this {
+        return this.mock(address, ERC20ABI, {
+            decimals: () => decimals,
+            symbol: () => symbol,
+        });
+    }
+
+    // Emits an event of a contract, as the next log of the block
+    mockLog(
+        address: string,
+        abi: string[],
+        event: string,
+        args: unknown[],
+        blockNumber: number
+    ): this {
+        const eventInterface = new utils.Interface(abi);
+        const log = eventInterface.encodeEventLog(
+            eventInterface.getEvent(event),
+            args
+        );
+
+        this.logs.push({
+            ...log,
+            address: utils.getAddress(address),
+            blockNumber,
+            blockHash: utils.hexZeroPad(utils.hexlify(blockNumber), 32),
+            transactionHash: utils.id(`${blockNumber}.${this.logs.length}`),
+            transactionIndex: 0,
+            logIndex: this.logs.filter((log) => log.blockNumber == blockNumber)
+                .length,
+            removed: false,
+        });
+        this.latestBlock = Math.max(this.latestBlock, blockNumber);
+        return this;
+    }
+
+    async getBlockNumber(): Promise<number> {
+        return this.latestBlock;
+    }
+
+    // Blocks are twelve seconds apart
+    async getBlock(blockNumber: number): Promise<providers.Block> {
+        return {
+            number: blockNumber,
+            timestamp: 1600000000 + blockNumber * 12,
+        } as providers.Block;
+    }
+
+    async getLogs(filter: providers.Filter): Promise<providers.Log[]> {
+        const fromBlock = Number(filter.fromBlock);
+        const toBlock = Number(filter.toBlock);
+        this.logQueries.push([fromBlock, toBlock]);
+
+        if (toBlock - fromBlock + 1 > this.maxLogRange)
+            throw new Error("Query exceeds the max block range.");
+
+        const matches = (topic: string, expected?: string | string[] | null) =>
+            expected == undefined ||
+            [expected].flat().some((option) => option == topic);
+
+        return this.logs.filter(
+            (log) =>
+                log.blockNumber >= fromBlock &&
+                log.blockNumber <= toBlock &&
+                (!filter.address ||
+                    log.address.toLowerCase() ==
+                        filter.address.toLowerCase()) &&
+                (filter.topics ?? []).every((expected, i) =>
+                    matches(log.topics[i], expected)
+                )
+        );
+    }
+
+    private async aggregate3(data: string, from?: string): Promise<string> {
+        const multicallInterface = new utils.Interface(Multicall3ABI);
+        const [calls] = multicallInterface.decodeFunctionData(
+            "aggregate3",
+            data
+        );
+
+        const key = `${Multicall3Address.toLowerCase()}.aggregate3`;
+        this.calls[key] = (this.calls[key] ?? 0) + 1;
+
+        const results: [boolean, string][] = [];
+        for (const { target, allowFailure, callData } of calls) {
+            try {
+                results.push([
+                    true,
+                    await this.call({ to: target, from, data: callData }),
+                ]);
+            } catch {
+                if (!allowFailure) throw revert("Multicall3: call failed");
+                results.push([false, "0x"]);
+            }
+        }
+
+        return multicallInterface.encodeFunctionResult("aggregate3", [results]);
+    }
+
+    callCount(address: string, functionName: string): number {
+        return this.calls[`${address.toLowerCase()}.${functionName}`] ?? 0;
+    }
+
+    async call(
+        transaction: Deferrable<providers.TransactionRequest>
+    ): Promise<string> {
+        const { to, from, data } = await resolveProperties(transaction);
+        if (
+            this.multicall &&
+            to?.toLowerCase() == Multicall3Address.toLowerCase()
+        )
+            return await this.aggregate3(utils.hexlify(data ?? "0x"), from);
+
+        const contract = this.contracts[(to ?? "").toLowerCase()];
+        if (!contract) throw new Error(`No mocked contract at ${to}.`);
+
+        const contractInterface = new utils.Interface(contract.abi);
+        const call = contractInterface.parseTransaction({
+            data: utils.hexlify(data ?? "0x"),
+        });
+        const mockFunction =
+            contract.functions[call.signature] ?? contract.functions[call.name];
+        if (!mockFunction)
+            throw new Error(`${call.signature} is not mocked at ${to}.`);
+
+        const key = `${(to ?? "").toLowerCase()}.${call.name}`;
+        this.calls[key] = (this.calls[key] ?? 0) + 1;
+
+        // Functions with several outputs return them as an array
+        const result = mockFunction(call.args, from);
+        return contractInterface.encodeFunctionResult(
+            call.functionFragment,
+            call.functionFragment.outputs?.length == 1
+                ? [result]
+                : (result as unknown[]) ?? []
+        );
+    }
+}
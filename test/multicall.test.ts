@@ -0,0 +1,115 @@
+import { expect } from "chai";
+import { Contract, providers } from "ethers";
+import { Deferrable, resolveProperties } from "ethers/lib/utils";
+
+import { StableSwapABI } from "../src/metadata/abis";
+import { Multicall3Address } from "../src/metadata/addresses";
+import { multicall, tryMulticall } from "../src/multicall";
+import {
+    createFixtureContext,
+    createFixtureProvider,
+    CURVE_POOL,
+    DAI,
+    OHM,
+    USDC,
+} from "./fixtures/pools";
+import { MockProvider, revert } from "./mocks";
+
+// A chain without Multicall3, whose address returns nothing like a node
+// answers calls to an address without code
+class NoMulticallProvider extends MockProvider {
+    multicallAttempts = 0;
+
+    async call(
+        transaction: Deferrable<providers.TransactionRequest>
+    ): Promise<string> {
+        const { to } = await resolveProperties(transaction);
+        if (to?.toLowerCase() == Multicall3Address.toLowerCase()) {
+            this.multicallAttempts++;
+            return "0x";
+        }
+        return await super.call(transaction);
+    }
+}
+
+// A pool of OHM, DAI and USDC, so that coins(3) reverts
+const mockCoins = <T extends MockProvider>(provider: T): T =>
+    provider.mock(CURVE_POOL, StableSwapABI, {
+        coins: ([i]) => {
+            if (i.gte(3)) throw revert("");
+            return [OHM, DAI, USDC][i.toNumber()];
+        },
+    });
+
+const coins = (provider: providers.BaseProvider, indexes: number[]) => {
+    const contract = new Contract(CURVE_POOL, StableSwapABI, provider);
+    return indexes.map((i) => ({ contract, method: "coins", args: [i] }));
+};
+
+describe("multicall", () => {
+    it("batches the calls into one", async () => {
+        const provider = createFixtureProvider();
+
+        expect(
+            await multicall(provider, coins(provider, [0, 1, 2]))
+        ).to.deep.equal([OHM, DAI, USDC]);
+        expect(provider.callCount(Multicall3Address, "aggregate3")).to.equal(1);
+        expect(provider.callCount(CURVE_POOL, "coins")).to.equal(3);
+    });
+
+    it("rejects with the error of a failing call", async () => {
+        const provider = createFixtureProvider();
+
+        try {
+            await multicall(provider, coins(provider, [0, 3]));
+            expect.fail("The calls resolved.");
+        } catch (error) {
+            expect((error as Error).message).to.contain("execution reverted");
+        }
+    });
+
+    it("resolves failing calls to undefined when asked to", async () => {
+        for (const provider of [
+            createFixtureProvider(),
+            mockCoins(new NoMulticallProvider()),
+        ])
+            expect(
+                await tryMulticall(provider, coins(provider, [2, 3]))
+            ).to.deep.equal([USDC, undefined]);
+    });
+
+    it("falls back to parallel calls without Multicall3", async () => {
+        const provider = mockCoins(new NoMulticallProvider());
+
+        expect(
+            await multicall(provider, coins(provider, [0, 1]))
+        ).to.deep.equal([OHM, DAI]);
+        expect(
+            await multicall(provider, coins(provider, [1, 0]))
+        ).to.deep.equal([DAI, OHM]);
+
+        // Multicall3 is only looked for once
+        expect(provider.multicallAttempts).to.equal(1);
+        expect(provider.callCount(CURVE_POOL, "coins")).to.equal(4);
+    });
+
+    describe("token metadata", () => {
+        it("reads tokens once per context", async () => {
+            const context = createFixtureContext();
+            const provider = context.provider as MockProvider;
+
+            expect(await context.getTokenMetadata([OHM, DAI])).to.deep.equal([
+                { address: OHM, symbol: "OHM", decimals: 9 },
+                { address: DAI, symbol: "DAI", decimals: 18 },
+            ]);
+            await context.getTokenMetadata([DAI.toLowerCase(), USDC]);
+
+            expect(provider.callCount(DAI, "symbol")).to.equal(1);
+            expect(provider.callCount(DAI, "decimals")).to.equal(1);
+            expect(provider.callCount(USDC, "decimals")).to.equal(1);
+            expect(
+                provider.callCount(Multicall3Address, "aggregate3")
+            ).to.equal(2);
+        });
+    });
+});
@@ -0,0 +1,195 @@
+import { expect } from "chai";
+
+import { InvalidInputError } from "../src/errors";
+import { detectPoolTokens, parseAddLiquidityParams } from "../src/params";
+import {
+    BALANCER_POOL_ID,
+    createFixtureContext,
+    createFixtureProvider,
+    CURVE_POOL,
+    DAI,
+    OHM,
+    SENDER,
+    SUSHI_PAIR,
+    UNISWAP_PAIR,
+    USDC,
+} from "./fixtures/pools";
+import { MockProvider } from "./mocks";
+
+// An RPC that is down, failing every request sent to it
+class DownProvider extends MockProvider {
+    async perform(): Promise<never> {
+        throw new Error("connect ECONNREFUSED 127.0.0.1:8545");
+    }
+}
+
+const PARAMS = {
+    version: 1,
+    chainId: 1,
+    rpcUrl: "http://localhost:8545",
+    sender: SENDER,
+    strategy: "uniswap",
+    lpAddress: UNISWAP_PAIR,
+    slippage: 0.01,
+    ohmAmount: "10000000000",
+};
+
+const parse = (params: object) =>
+    parseAddLiquidityParams(JSON.stringify(params));
+
+describe("add-liq params", () => {
+    it("reads JSON and YAML alike", () => {
+        expect(parse(PARAMS)).to.deep.equal(PARAMS);
+        expect(
+            parseAddLiquidityParams(`
+chainId: 1
+rpcUrl:
+  - http://localhost:8545
+  - http://localhost:8546
+sender: "${SENDER}"
+strategy: uniswap
+lpAddress: "${UNISWAP_PAIR}"
+ohmAmount: 10.5 OHM
+`)
+        ).to.deep.equal({
+            chainId: 1,
+            rpcUrl: ["http://localhost:8545", "http://localhost:8546"],
+            sender: SENDER,
+            strategy: "uniswap",
+            lpAddress: UNISWAP_PAIR,
+            ohmAmount: "10.5 OHM",
+        });
+    });
+
+    it("lists every problem at once", () => {
+        const params: Partial<typeof PARAMS> = { ...PARAMS };
+        delete params.sender;
+
+        expect(() =>
+            parse({
+                ...params,
+                strategy: 5,
+                ohmAmount: "-1",
+                gasPrice: 1,
+            })
+        )
+            .to.throw(InvalidInputError)
+            .with.property("message")
+            .that.contains("/sender is required")
+            .and.contains("/gasPrice is not a known field")
+            .and.contains("/strategy must be string")
+            .and.contains("/ohmAmount is invalid: Raw base units");
+    });
+
+    it("takes strategies in any case, including registered ones", () => {
+        expect(parse({ ...PARAMS, strategy: "Sushiswap" })).to.have.property(
+            "strategy",
+            "sushiswap"
+        );
+        expect(parse({ ...PARAMS, strategy: "pancakeswap" })).to.have.property(
+            "strategy",
+            "pancakeswap"
+        );
+        expect(() => parse({ ...PARAMS, strategy: "UniswapV3" })).to.throw(
+            InvalidInputError,
+            "/options is required"
+        );
+    });
+
+    it("rejects unsupported versions", () => {
+        expect(() => parse({ ...PARAMS, version: 2 })).to.throw(
+            InvalidInputError,
+            "only version 1 is supported"
+        );
+    });
+
+    it("rejects documents that aren't JSON or YAML", () => {
+        expect(() => parseAddLiquidityParams("{ chainId: [")).to.throw(
+            InvalidInputError,
+            "not valid JSON or YAML"
+        );
+    });
+
+    it("requires the other tokens of Balancer pools", () => {
+        const balancer = {
+            ...PARAMS,
+            strategy: "balancer",
+            lpAddress: BALANCER_POOL_ID,
+        };
+
+        expect(() => parse(balancer)).to.throw(
+            InvalidInputError,
+            "/otherTokens is required"
+        );
+        expect(
+            parse({ ...balancer, otherTokens: [DAI], otherTokenAmounts: [0] })
+        ).to.have.property("lpAddress", BALANCER_POOL_ID);
+        expect(() =>
+            parse({
+                ...PARAMS,
+                lpAddress: BALANCER_POOL_ID,
+            })
+        ).to.throw(InvalidInputError, "/lpAddress must match pattern");
+    });
+
+    it("requires the fee and range of Uniswap V3 positions", () => {
+        const uniswapV3 = { ...PARAMS, strategy: "uniswapv3" };
+
+        expect(() => parse(uniswapV3)).to.throw(
+            InvalidInputError,
+            "/options is required"
+        );
+        expect(() =>
+            parse({ ...uniswapV3, options: { fee: 3000, tickLower: 0 } })
+        ).to.throw(InvalidInputError, "/options is invalid");
+        expect(
+            parse({ ...uniswapV3, options: { fee: 3000, priceBand: 0.1 } })
+        ).to.have.deep.property("options", { fee: 3000, priceBand: 0.1 });
+    });
+
+    describe("detectPoolTokens", () => {
+        const context = createFixtureContext();
+
+        it("reads the tokens of Uniswap pairs", async () => {
+            expect(
+                await detectPoolTokens(context, "sushiswap", SUSHI_PAIR)
+            ).to.deep.equal([
+                { address: USDC, symbol: "USDC", decimals: 6 },
+                { address: OHM, symbol: "OHM", decimals: 9 },
+            ]);
+        });
+
+        it("reads the coins of Curve pools", async () => {
+            expect(
+                (await detectPoolTokens(context, "curve", CURVE_POOL)).map(
+                    (token) => token.symbol
+                )
+            ).to.deep.equal(["OHM", "DAI", "USDC"]);
+        });
+
+        it("reads the tokens of Balancer pools", async () => {
+            expect(
+                await detectPoolTokens(context, "balancer", BALANCER_POOL_ID)
+            ).to.deep.equal([
+                { address: OHM, symbol: "OHM", decimals: 9 },
+                { address: DAI, symbol: "DAI", decimals: 18 },
+            ]);
+        });
+
+        it("falls back on the next RPC when the first is down", async function () {
+            // Each request waits for the first RPC to stall before the next
+            // is asked
+            this.timeout(10000);
+
+            const context = createFixtureContext();
+            context.setProvider([new DownProvider(), createFixtureProvider()]);
+
+            expect(
+                await detectPoolTokens(context, "sushiswap", SUSHI_PAIR)
+            ).to.deep.equal([
+                { address: USDC, symbol: "USDC", decimals: 6 },
+                { address: OHM, symbol: "OHM", decimals: 9 },
+            ]);
+        });
+    });
+});
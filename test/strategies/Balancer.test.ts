@@ -0,0 +1,83 @@
+import { expect } from "chai";
+import { parseUnits } from "ethers/lib/utils";
+
+import { PoolMismatchError } from "../../src/errors";
+import { Balancer } from "../../src/strategies/Balancer";
+import {
+    BALANCER_POOL_ID,
+    CHAIN_ID,
+    createFixtureProvider,
+    DAI,
+    SENDER,
+    USDC,
+} from "../fixtures/pools";
+import { expectGolden } from "../golden";
+
+const OHM_AMOUNT = parseUnits("10", 9).toString();
+
+const createBalancer = (
+    otherTokens: string[] = [],
+    otherTokenAmounts: string[] = []
+) =>
+    new Balancer(
+        SENDER,
+        BALANCER_POOL_ID,
+        otherTokens,
+        otherTokenAmounts,
+        0.01,
+        OHM_AMOUNT,
+        createFixtureProvider(),
+        CHAIN_ID
+    );
+
+describe("Balancer", () => {
+    it("matches the golden add liquidity calldata", async () => {
+        expectGolden(
+            "Balancer.getAddLiquidityCalldata",
+            await createBalancer().getAddLiquidityCalldata()
+        );
+    });
+
+    it("detects a weighted pool", async () => {
+        expect(await createBalancer().getPoolType()).to.equal("weighted");
+    });
+
+    it("warns about joins moving the pool's prices", async () => {
+        // Twice the DAI worth of the OHM borrowed
+        const strategy = createBalancer(
+            [DAI],
+            [parseUnits("400", 18).toString()]
+        );
+        await strategy.getAddLiquidityCalldata();
+
+        expect(strategy.getWarnings()).to.have.length(1);
+        expect(strategy.getWarnings()[0]).to.include("price impact");
+    });
+
+    it("doesn't warn about proportional joins", async () => {
+        const strategy = createBalancer(
+            [DAI],
+            [parseUnits("200", 18).toString()]
+        );
+        await strategy.getAddLiquidityCalldata();
+
+        expect(strategy.getWarnings()).to.deep.equal([]);
+    });
+
+    it("rejects other tokens that aren't in the pool", async () => {
+        const strategy = createBalancer(
+            [USDC],
+            [parseUnits("200", 6).toString()]
+        );
+
+        try {
+            await strategy.getAddLiquidityCalldata();
+            expect.fail("The calldata was built.");
+        } catch (error) {
+            expect(error).to.be.instanceOf(PoolMismatchError);
+            expect((error as Error).message).to.contain(
+                `must be tokens of Balancer pool ${BALANCER_POOL_ID} besides OHM`
+            );
+        }
+    });
+});
@@ -0,0 +1,93 @@
+import { expect } from "chai";
+import { defaultAbiCoder as abiCoder, parseUnits } from "ethers/lib/utils";
+
+import { StableSwapABI } from "../../src/metadata/abis";
+import { Curve } from "../../src/strategies/Curve";
+import {
+    CHAIN_ID,
+    createFixtureProvider,
+    CURVE_POOL,
+    DAI,
+    OHM,
+} from "../fixtures/pools";
+import { expectGolden } from "../golden";
+
+const OHM_AMOUNT = parseUnits("10", 9).toString();
+
+describe("Curve", () => {
+    it("matches the golden add liquidity calldata", async () => {
+        const strategy = new Curve(
+            CURVE_POOL,
+            0.01,
+            OHM_AMOUNT,
+            createFixtureProvider(),
+            CHAIN_ID
+        );
+
+        expectGolden(
+            "Curve.getAddLiquidityCalldata",
+            await strategy.getAddLiquidityCalldata()
+        );
+    });
+
+    it("deposits in proportion to the balances of every coin", async () => {
+        const strategy = new Curve(
+            CURVE_POOL,
+            0.01,
+            OHM_AMOUNT,
+            createFixtureProvider(),
+            CHAIN_ID
+        );
+
+        expect(await strategy.getAddLiquidityAmounts()).to.deep.equal([
+            OHM_AMOUNT,
+            parseUnits("200", 18).toString(),
+            parseUnits("200", 6).toString(),
+        ]);
+    });
+
+    it("keeps the two coin encoding for two coin pools", async () => {
+        const provider = createFixtureProvider().mock(
+            CURVE_POOL,
+            StableSwapABI,
+            {
+                coins: ([i]) => {
+                    if (i.gte(2)) throw new Error("execution reverted");
+                    return [DAI, OHM][i.toNumber()];
+                },
+                balances: ([i]) =>
+                    [parseUnits("20000", 18), parseUnits("1000", 9)][
+                        i.toNumber()
+                    ],
+            }
+        );
+        const strategy = new Curve(
+            CURVE_POOL,
+            0.01,
+            OHM_AMOUNT,
+            provider,
+            CHAIN_ID
+        );
+
+        // calc_token_amount is only mocked for three coins
+        provider.mock(
+            CURVE_POOL,
+            [
+                "function calc_token_amount(uint256[2], bool) view returns (uint256)",
+            ],
+            { calc_token_amount: () => parseUnits("400", 18) }
+        );
+
+        const [amounts, minLp, otherToken, pool] = abiCoder.decode(
+            ["uint256[2]", "uint256", "address", "address"],
+            await strategy.getAddLiquidityCalldata()
+        );
+        expect(amounts.map(String)).to.deep.equal([
+            parseUnits("200", 18).toString(),
+            OHM_AMOUNT,
+        ]);
+        expect(minLp.eq(parseUnits("396", 18))).to.equal(true);
+        expect(otherToken).to.equal(DAI);
+        expect(pool.toLowerCase()).to.equal(CURVE_POOL);
+    });
+});
@@ -0,0 +1,236 @@
+import { expect } from "chai";
+import { BigNumber } from "ethers";
+import { defaultAbiCoder as abiCoder, parseUnits } from "ethers/lib/utils";
+
+import { UniswapV2ABI } from "../../src/metadata/abis";
+import { OhmAddress } from "../../src/metadata/addresses";
+import { Uniswap } from "../../src/strategies/Uniswap";
+import {
+    CHAIN_ID,
+    createFixtureProvider,
+    SUSHI_PAIR,
+    UNISWAP_PAIR,
+} from "../fixtures/pools";
+import { expectGolden } from "../golden";
+import { MockProvider } from "../mocks";
+
+const OHM = OhmAddress(1) as string;
+const USDC = "0x000000000000000000000000000000000000a006";
+const DAI = "0x000000000000000000000000000000000000a018";
+const PAIR = "0x00000000000000000000000000000000000000f1";
+
+const ADD_PARAMS = [
+    "address",
+    "address",
+    "uint256",
+    "uint256",
+    "uint256",
+    "uint256",
+];
+const REMOVE_PARAMS = ["address", "address", "uint256", "uint256", "uint256"];
+
+function mockPair(
+    token0: string,
+    reserves0: BigNumber,
+    token1: string,
+    reserves1: BigNumber,
+    totalSupply = parseUnits("100", 18)
+): MockProvider {
+    return new MockProvider()
+        .mockToken(OHM, 9, "OHM")
+        .mockToken(USDC, 6, "USDC")
+        .mockToken(DAI, 18, "DAI")
+        .mock(PAIR, UniswapV2ABI, {
+            token0: () => token0,
+            token1: () => token1,
+            getReserves: () => [reserves0, reserves1, 0],
+            totalSupply: () => totalSupply,
+        });
+}
+
+async function expectRejection(
+    promise: Promise<unknown>,
+    message: string
+): Promise<void> {
+    try {
+        await promise;
+    } catch (error) {
+        expect((error as Error).message).to.include(message);
+        return;
+    }
+    expect.fail(`Expected a rejection with "${message}".`);
+}
+
+describe("Uniswap", () => {
+    it("matches the golden add liquidity calldata", async () => {
+        for (const [name, pair] of [
+            ["Uniswap", UNISWAP_PAIR],
+            ["Sushiswap", SUSHI_PAIR],
+        ]) {
+            const strategy = new Uniswap(
+                pair,
+                0.01,
+                parseUnits("10", 9).toString(),
+                createFixtureProvider(),
+                CHAIN_ID
+            );
+
+            expectGolden(
+                `${name}.getAddLiquidityCalldata`,
+                await strategy.getAddLiquidityCalldata()
+            );
+        }
+    });
+
+    it("pairs OHM as token0 with a 6 decimal token", async () => {
+        // 1,000 OHM against 5,000,000 USDC, so 1 OHM is worth 5,000 USDC
+        const provider = mockPair(
+            OHM,
+            parseUnits("1000", 9),
+            USDC,
+            parseUnits("5000000", 6)
+        );
+        const strategy = new Uniswap(
+            PAIR,
+            0.01,
+            parseUnits("2", 9).toString(),
+            provider,
+            1
+        );
+
+        const [tokenA, tokenB, amountA, amountB, minA, minB] = abiCoder.decode(
+            ADD_PARAMS,
+            await strategy.getAddLiquidityCalldata()
+        );
+        expect(tokenA.toLowerCase()).to.equal(OHM.toLowerCase());
+        expect(tokenB.toLowerCase()).to.equal(USDC);
+        expect(amountA.eq(parseUnits("2", 9))).to.equal(true);
+        expect(amountB.eq(parseUnits("10000", 6))).to.equal(true);
+        expect(minA.eq(parseUnits("1.98", 9))).to.equal(true);
+        expect(minB.eq(parseUnits("9900", 6))).to.equal(true);
+    });
+
+    it("pairs OHM as token1 with an 18 decimal token", async () => {
+        // 20,000 DAI against 1,000 OHM, so 1 OHM is worth 20 DAI
+        const provider = mockPair(
+            DAI,
+            parseUnits("20000", 18),
+            OHM,
+            parseUnits("1000", 9)
+        );
+        const strategy = new Uniswap(
+            PAIR,
+            0.01,
+            parseUnits("2", 9).toString(),
+            provider,
+            1
+        );
+
+        const [, , amountA, amountB, minA, minB] = abiCoder.decode(
+            ADD_PARAMS,
+            await strategy.getAddLiquidityCalldata()
+        );
+        expect(amountA.eq(parseUnits("40", 18))).to.equal(true);
+        expect(amountB.eq(parseUnits("2", 9))).to.equal(true);
+        expect(minA.eq(parseUnits("39.6", 18))).to.equal(true);
+        expect(minB.eq(parseUnits("1.98", 9))).to.equal(true);
+    });
+
+    it("reads token metadata once", async () => {
+        const provider = mockPair(
+            OHM,
+            parseUnits("1000", 9),
+            USDC,
+            parseUnits("5000000", 6)
+        );
+        const strategy = new Uniswap(
+            PAIR,
+            0.01,
+            parseUnits("2", 9).toString(),
+            provider,
+            1
+        );
+
+        await strategy.getAddLiquidityCalldata();
+        await strategy.getAddLiquidityCalldata();
+        await strategy.getRemoveLiquidityCalldata(
+            parseUnits("1", 18).toString()
+        );
+        await strategy.getDecimals();
+        await strategy.getDecimals();
+
+        expect(provider.callCount(PAIR, "token0")).to.equal(1);
+        expect(provider.callCount(PAIR, "token1")).to.equal(1);
+        expect(provider.callCount(OHM, "decimals")).to.equal(1);
+        expect(provider.callCount(USDC, "decimals")).to.equal(1);
+    });
+
+    it("rejects a pool without OHM", async () => {
+        const provider = mockPair(
+            DAI,
+            parseUnits("1000", 18),
+            USDC,
+            parseUnits("1000", 6)
+        );
+        const strategy = new Uniswap(
+            PAIR,
+            0.01,
+            parseUnits("2", 9).toString(),
+            provider,
+            1
+        );
+
+        await expectRejection(
+            strategy.getAddLiquidityCalldata(),
+            "OHM is not one of the tokens"
+        );
+    });
+
+    it("rejects a pool holding no OHM", async () => {
+        const provider = mockPair(
+            OHM,
+            BigNumber.from(0),
+            USDC,
+            parseUnits("1000", 6)
+        );
+        const strategy = new Uniswap(
+            PAIR,
+            0.01,
+            parseUnits("2", 9).toString(),
+            provider,
+            1
+        );
+
+        await expectRejection(
+            strategy.getAddLiquidityCalldata(),
+            "The pool holds no OHM."
+        );
+    });
+
+    it("takes the LP's share of reserves as minimum amounts out", async () => {
+        const provider = mockPair(
+            DAI,
+            parseUnits("20000", 18),
+            OHM,
+            parseUnits("1000", 9)
+        );
+        const strategy = new Uniswap(
+            PAIR,
+            0.01,
+            parseUnits("2", 9).toString(),
+            provider,
+            1
+        );
+
+        // A tenth of the supply is a tenth of each reserve
+        const [, , liquidity, minA, minB] = abiCoder.decode(
+            REMOVE_PARAMS,
+            await strategy.getRemoveLiquidityCalldata(
+                parseUnits("10", 18).toString()
+            )
+        );
+        expect(liquidity.eq(parseUnits("10", 18))).to.equal(true);
+        expect(minA.eq(parseUnits("1980", 18))).to.equal(true);
+        expect(minB.eq(parseUnits("99", 9))).to.equal(true);
+    });
+});
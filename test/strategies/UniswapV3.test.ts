@@ -0,0 +1,131 @@
+import { expect } from "chai";
+import { BigNumber } from "ethers";
+import { defaultAbiCoder as abiCoder, parseUnits } from "ethers/lib/utils";
+
+import { UniswapV3PoolABI } from "../../src/metadata/abis";
+import { OhmAddress } from "../../src/metadata/addresses";
+import { UniswapV3 } from "../../src/strategies/UniswapV3";
+import {
+    CHAIN_ID,
+    createFixtureProvider,
+    UNISWAP_V3_POOL,
+} from "../fixtures/pools";
+import { expectGolden } from "../golden";
+import { MockProvider } from "../mocks";
+
+const OHM = OhmAddress(1) as string;
+const DAI = "0x000000000000000000000000000000000000a018";
+const POOL = "0x00000000000000000000000000000000000000f3";
+
+const ADD_PARAMS = [
+    "address",
+    "address",
+    "uint24",
+    "int24",
+    "int24",
+    "uint256",
+    "uint256",
+    "uint256",
+    "uint256",
+];
+
+// A pool at a price of one, i.e. tick 0
+function mockPool(
+    token0: string,
+    token1: string,
+    liquidity = parseUnits("1", 18)
+): MockProvider {
+    return new MockProvider()
+        .mockToken(OHM, 9, "OHM")
+        .mockToken(DAI, 18, "DAI")
+        .mock(POOL, UniswapV3PoolABI, {
+            token0: () => token0,
+            token1: () => token1,
+            fee: () => 3000,
+            tickSpacing: () => 60,
+            liquidity: () => liquidity,
+            slot0: () => [BigNumber.from(2).pow(96), 0, 0, 1, 1, 0, true],
+        });
+}
+
+describe("UniswapV3", () => {
+    it("matches the golden add liquidity calldata", async () => {
+        const strategy = new UniswapV3(
+            UNISWAP_V3_POOL,
+            { fee: 3000, priceBand: 0.1 },
+            0.01,
+            parseUnits("10", 9).toString(),
+            createFixtureProvider(),
+            CHAIN_ID
+        );
+
+        expectGolden(
+            "UniswapV3.getAddLiquidityCalldata",
+            await strategy.getAddLiquidityCalldata()
+        );
+    });
+
+    it("deposits only OHM as token1 below the current price", async () => {
+        const provider = mockPool(DAI, OHM);
+        const strategy = new UniswapV3(
+            POOL,
+            { fee: 3000, tickLower: -600, tickUpper: -60 },
+            0.01,
+            parseUnits("2", 9).toString(),
+            provider,
+            1
+        );
+
+        const [tokenA, tokenB, , tickLower, tickUpper, amountA, amountB] =
+            abiCoder.decode(
+                ADD_PARAMS,
+                await strategy.getAddLiquidityCalldata()
+            );
+        expect(tokenA.toLowerCase()).to.equal(DAI);
+        expect(tokenB.toLowerCase()).to.equal(OHM.toLowerCase());
+        expect([tickLower, tickUpper]).to.deep.equal([-600, -60]);
+        expect(amountA.isZero()).to.equal(true);
+        expect(amountB.eq(parseUnits("2", 9))).to.equal(true);
+
+        await strategy.getAddLiquidityCalldata();
+        expect(provider.callCount(POOL, "token0")).to.equal(1);
+    });
+
+    it("adds to a pool without liquidity in range", async () => {
+        const strategy = new UniswapV3(
+            POOL,
+            { fee: 3000, tickLower: -600, tickUpper: -60 },
+            0.01,
+            parseUnits("2", 9).toString(),
+            mockPool(DAI, OHM, BigNumber.from(0)),
+            1
+        );
+
+        const [, , , , , , amountB] = abiCoder.decode(
+            ADD_PARAMS,
+            await strategy.getAddLiquidityCalldata()
+        );
+        expect(amountB.eq(parseUnits("2", 9))).to.equal(true);
+    });
+
+    it("rejects a pool without OHM", async () => {
+        const strategy = new UniswapV3(
+            POOL,
+            { fee: 3000, priceBand: 0.1 },
+            0.01,
+            parseUnits("2", 9).toString(),
+            mockPool(DAI, DAI),
+            1
+        );
+
+        try {
+            await strategy.getAddLiquidityCalldata();
+        } catch (error) {
+            expect((error as Error).message).to.include(
+                "OHM is not one of the tokens"
+            );
+            return;
+        }
+        expect.fail("Expected a pool without OHM to be rejected.");
+    });
+});
@@ -0,0 +1,140 @@
+import { expect } from "chai";
+
+import {
+    InvalidAddressError,
+    InvalidAmountError,
+    InvalidInputError,
+    InvalidSlippageError,
+    UnsupportedStrategyError,
+} from "../src/errors";
+import { IncurDebt } from "../src/incurDebt";
+import {
+    validateAddress,
+    validateAmount,
+    validatePoolId,
+    validateSlippage,
+    validateTokenAmounts,
+} from "../src/validation";
+import {
+    BALANCER_POOL_ID,
+    createFixtureContext,
+    DAI,
+    SENDER,
+    UNISWAP_PAIR,
+} from "./fixtures/pools";
+
+const OHM_AMOUNT = "10000000000";
+
+async function expectError(
+    promise: Promise<unknown>,
+    errorClass: new (...args: never[]) => Error,
+    message: string
+): Promise<void> {
+    try {
+        await promise;
+        expect.fail("No error was thrown.");
+    } catch (error) {
+        expect(error).to.be.instanceOf(errorClass);
+        expect((error as Error).message).to.contain(message);
+    }
+}
+
+describe("validation", () => {
+    it("checksums addresses", () => {
+        expect(validateAddress("token", DAI.toLowerCase())).to.equal(DAI);
+        expect(() => validateAddress("token", "0x1234")).to.throw(
+            InvalidAddressError,
+            "Invalid token address: 0x1234"
+        );
+    });
+
+    it("takes whole amounts of base units", () => {
+        expect(validateAmount("OHM amount", " 0010 ")).to.equal("10");
+        expect(validateAmount("OHM amount", 10)).to.equal("10");
+
+        for (const amount of ["abc", "1.5", "-1", "", 1.5, undefined])
+            expect(() => validateAmount("OHM amount", amount)).to.throw(
+                InvalidAmountError,
+                "Invalid OHM amount"
+            );
+    });
+
+    it("takes slippage in [0, 1)", () => {
+        expect(validateSlippage(0)).to.equal(0);
+
+        for (const slippage of [-0.01, 1, 1.5, NaN, "0.01"])
+            expect(() => validateSlippage(slippage)).to.throw(
+                InvalidSlippageError
+            );
+    });
+
+    it("takes 32 byte Balancer pool ids", () => {
+        expect(validatePoolId(BALANCER_POOL_ID)).to.equal(BALANCER_POOL_ID);
+        expect(() => validatePoolId(DAI)).to.throw(
+            InvalidInputError,
+            "Invalid Balancer pool id"
+        );
+    });
+
+    it("pairs every other token with an amount", () => {
+        expect(() => validateTokenAmounts([DAI], [])).to.throw(
+            InvalidInputError,
+            "1 other tokens are given with 0 amounts"
+        );
+    });
+
+    describe("IncurDebt", () => {
+        const incurDebt = new IncurDebt(createFixtureContext());
+
+        const addLiquidity = (
+            strategy: string,
+            lpAddress: string,
+            slippage: number,
+            ohmAmount: string
+        ) =>
+            incurDebt.getAddLiquidityTx(
+                SENDER,
+                strategy,
+                lpAddress,
+                slippage,
+                ohmAmount
+            );
+
+        it("rejects invalid amounts", async () => {
+            await expectError(
+                incurDebt.getBorrowTx("abc"),
+                InvalidAmountError,
+                "Invalid OHM amount: abc"
+            );
+        });
+
+        it("rejects invalid addresses", async () => {
+            await expectError(
+                incurDebt.getBorrowerData("0xnot-an-address"),
+                InvalidAddressError,
+                "Invalid borrower address"
+            );
+            await expectError(
+                addLiquidity("uniswap", "0x1234", 0.01, OHM_AMOUNT),
+                InvalidAddressError,
+                "Invalid pool address: 0x1234"
+            );
+        });
+
+        it("rejects slippage outside of [0, 1)", async () => {
+            await expectError(
+                addLiquidity("uniswap", UNISWAP_PAIR, 1.5, OHM_AMOUNT),
+                InvalidSlippageError,
+                "got 1.5"
+            );
+        });
+
+        it("rejects unknown strategies", async () => {
+            await expectError(
+                addLiquidity("pancakeswap", UNISWAP_PAIR, 0.01, OHM_AMOUNT),
+                UnsupportedStrategyError,
+                "Unknown strategy pancakeswap."
+            );
+        });
+    });
+});